@@ -0,0 +1,97 @@
+// Provider proxy: forwards /api/providers/<id>/<path> to the provider with the
+// server's key and pipes the response, streams included, back unchanged. Only
+// requests carrying the deployment's access token, for endpoints the adapters
+// call, get the key.
+import { PROVIDERS, PROXY_TOKEN_HEADER, ProxyProviderId, isProxyProviderId } from '@/types';
+import { getServerKey, isProxyTokenValid } from '@/lib/server/provider-keys';
+
+export const dynamic = 'force-dynamic';
+
+interface ProxyContext {
+  params: Promise<{ id: string; path: string[] }>;
+}
+
+// Paths the adapters use: chat, model lists, embeddings, image generation and key checks
+const ALLOWED_PATHS: Record<ProxyProviderId, RegExp> = {
+  gemini: /^v1beta\/models(\/[^/]+:(streamGenerateContent|batchEmbedContents))?$/,
+  anthropic: /^v1\/(messages|models)$/,
+  openai: /^v1\/(chat\/completions|models|embeddings|images\/generations)$/,
+  xai: /^v1\/(chat\/completions|models|images\/generations|api-key)$/,
+  groq: /^openai\/v1\/(chat\/completions|models)$/,
+  openrouter: /^api\/v1\/(chat\/completions|models|embeddings|embeddings\/models|key)$/,
+};
+
+// Request headers passed through; keys sent by the client never are
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'accept', 'anthropic-version', 'anthropic-beta', 'http-referer', 'x-title'];
+
+// The body is re-sent as received, so encoding and framing headers no longer apply
+const DROPPED_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'set-cookie'];
+
+function authenticate(providerId: ProxyProviderId, key: string, headers: Headers, url: URL): void {
+  switch (providerId) {
+    case 'anthropic':
+      headers.set('x-api-key', key);
+      break;
+    case 'gemini':
+      url.searchParams.delete('key');
+      headers.set('x-goog-api-key', key);
+      break;
+    default:
+      headers.set('Authorization', `Bearer ${key}`);
+  }
+}
+
+async function proxy(request: Request, { params }: ProxyContext): Promise<Response> {
+  const { id, path } = await params;
+  if (!isProxyTokenValid(request.headers.get(PROXY_TOKEN_HEADER))) {
+    return Response.json({ error: { message: 'Missing or wrong proxy access token; enter the one for this deployment in Settings' } }, { status: 401 });
+  }
+  if (!isProxyProviderId(id)) {
+    return Response.json({ error: { message: `Unknown provider ${id}` } }, { status: 404 });
+  }
+  const key = getServerKey(id);
+  if (!key) {
+    // Not a 404, which clients read as a missing model
+    return Response.json({ error: { message: `This deployment holds no key for ${PROVIDERS[id].name}; enter your own in Settings` } }, { status: 401 });
+  }
+  const target = path.join('/');
+  if (!ALLOWED_PATHS[id].test(target)) {
+    return Response.json({ error: { message: `The proxy does not forward /${target}` } }, { status: 403 });
+  }
+
+  const url = new URL(`${PROVIDERS[id].baseUrl}/${target}`);
+  url.search = new URL(request.url).search;
+
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+  authenticate(id, key, headers, url);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: request.method,
+      headers,
+      body: request.method === 'GET' || request.method === 'HEAD' ? undefined : await request.arrayBuffer(),
+      signal: request.signal, // Stopping generation in the browser cancels the upstream request
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new Response(null, { status: 499 });
+    }
+    return Response.json({ error: { message: `Could not reach ${PROVIDERS[id].name}` } }, { status: 502 });
+  }
+
+  const responseHeaders = new Headers(upstream.headers);
+  DROPPED_RESPONSE_HEADERS.forEach(name => responseHeaders.delete(name));
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  });
+}
+
+export const GET = proxy;
+export const POST = proxy;
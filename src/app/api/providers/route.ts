@@ -0,0 +1,8 @@
+// Tells the client which providers this deployment holds keys for
+import { getServerKeyProviders } from '@/lib/server/provider-keys';
+
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  return Response.json({ providers: getServerKeyProviders() });
+}
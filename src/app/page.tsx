@@ -6,11 +6,27 @@ import {
   Conversation,
   Message,
   Model,
+  Provider,
   ProviderId,
-  PROVIDERS,
   ChatConfig,
   ApiKeys,
   Attachment,
+  ToolCall,
+  TokenUsage,
+  ReasoningEffort,
+  RetryInfo,
+  ToolDefinition,
+  GenerationSettings,
+  Comparison,
+  ComparisonResponse,
+  ModelRef,
+  FallbackAttempt,
+  Citation,
+  ImageOptions,
+  OpenRouterRouting,
+  FinishReason,
+  DEFAULT_IMAGE_OPTIONS,
+  isEmbeddingModel,
 } from '@/types';
 import {
   getApiKeys,
@@ -19,16 +35,41 @@ import {
   createNewConversation,
   generateConversationTitle,
   estimateTokens,
+  estimateContextTokens,
   getConversations,
   getPreferences,
   setPreferences,
   togglePinConversation,
   setApiKey,
+  isProviderReady,
+  hasServerKey,
+  getProviders,
+  getProvider,
+  getCachedModels,
+  setCachedModels,
+  isModelCacheStale,
+  getGenerationDefaults,
+  getFallbackChain,
+  getOpenRouterRouting,
 } from '@/lib/storage';
-import { getAdapter } from '@/lib/providers';
+import { getAdapter, ProviderError, ProviderErrorKind, syncServerKeyProviders, isAnthropicFallbackModelList } from '@/lib/providers';
+import { getToolDefinitions, executeToolCall } from '@/lib/tools';
+import { estimateCost, continueUsage, resolveModelPrice, isPriceGuessed } from '@/lib/pricing';
+import { isPdfAttachment, supportsNativePdf } from '@/lib/attachments';
+import { preparePdfAttachments } from '@/lib/pdf';
 import { cn } from '@/lib/utils';
 import { Sidebar } from '@/components/sidebar';
-import { ChatContainer, ChatInput } from '@/components/chat';
+import {
+  ChatContainer,
+  ChatInput,
+  RetryNotice,
+  GenerationSettingsPopover,
+  FallbackChainPopover,
+  OpenRouterRoutingPopover,
+  ImageOptionsPopover,
+  CompareBar,
+  MIN_COMPARE_TARGETS,
+} from '@/components/chat';
 import { SettingsDialog, ThemeToggle } from '@/components/settings';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -48,7 +89,58 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from '@/components/ui/tooltip';
-import { Loader2, AlertCircle, Plus, ImageIcon, FileText, Code2, Cpu, Info, Search, ExternalLink, ShieldCheck } from 'lucide-react';
+import { Loader2, AlertCircle, Plus, ImageIcon, FileText, Code2, Cpu, Info, Search, ExternalLink, ShieldCheck, RefreshCw, Columns3 } from 'lucide-react';
+
+// Upper bound on model <-> tool round trips for a single reply
+const MAX_TOOL_STEPS = 8;
+// Failures that another model may not have. Bad keys, rejected system prompts and the
+// like are the user's to fix, so they are reported instead of silently routed around.
+const FALLBACK_KINDS = new Set<ProviderErrorKind>(['rate_limit', 'quota', 'server', 'network', 'model_not_found']);
+// Sent after a reply that hit the output token limit; never stored in the conversation
+const CONTINUE_PROMPT = 'Continue exactly where your previous reply stopped. Do not repeat anything you already wrote and do not add any preamble.';
+
+const DEFAULT_SYSTEM_PROMPT = "You are a friendly and helpful AI assistant. Always try your best to assist the user. If you don't know the answer, just say so. Don't make things up. Don't make promises you can't keep. Don't make up dates or times.";
+
+// Prepend the user's system prompt (or the default) unless it is disabled for this chat
+function withSystemPrompt(messages: Message[], disabled?: boolean): Message[] {
+  if (disabled) return messages;
+
+  const userSystemPrompt = getPreferences().systemPrompt;
+  const systemPrompt = userSystemPrompt && userSystemPrompt.trim().length > 0
+    ? userSystemPrompt
+    : DEFAULT_SYSTEM_PROMPT;
+
+  return [
+    {
+      id: 'system',
+      role: 'system',
+      content: systemPrompt,
+      timestamp: Date.now(),
+    },
+    ...messages
+  ];
+}
+
+// Reported when the whole fallback chain failed, listing why each model was skipped
+function withFallbackAttempts(err: ProviderError, attempts: FallbackAttempt[]): ProviderError {
+  const reasons = attempts.map(a => `${a.modelId}: ${a.reason}`).join('; ');
+  return new ProviderError(`All ${attempts.length} models failed. ${reasons}`, {
+    providerId: err.providerId,
+    kind: err.kind,
+    status: err.status,
+    body: err.body,
+    feature: err.feature,
+  });
+}
+
+// Tools offered to a model that can call them. A history that already holds tool
+// turns needs them even when tools are off, or providers reject those turns.
+function getToolsConfig(enabled: boolean, model: Model | undefined, history: Message[]): ToolDefinition[] | undefined {
+  if (!model?.supportsFunctionCalling) return undefined;
+  if (!enabled && !history.some(m => m.role === 'tool')) return undefined;
+  const tools = getToolDefinitions();
+  return tools.length > 0 ? tools : undefined;
+}
 
 export default function ChatPage() {
   // State
@@ -56,8 +148,10 @@ export default function ChatPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [streamingMessageId, setStreamingMessageId] = useState<string | undefined>();
   const [settingsOpen, setSettingsOpen] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | ProviderError | null>(null);
+  const [retryState, setRetryState] = useState<{ retry: RetryInfo; resumeAt: number } | null>(null);
   const [systemPromptWarningOpen, setSystemPromptWarningOpen] = useState(false);
+  const [trimContextStart, setTrimContextStart] = useState<number | null>(null);
   const [apiKeyNeededProvider, setApiKeyNeededProvider] = useState<ProviderId | null>(null);
   const [tempApiKey, setTempApiKey] = useState('');
 
@@ -66,14 +160,22 @@ export default function ChatPage() {
   const [selectedModel, setSelectedModel] = useState<string>('');
   const [models, setModels] = useState<Model[]>([]);
   const [loadingModels, setLoadingModels] = useState(false);
+  const [refreshingModels, setRefreshingModels] = useState(false);
   const [modelSearch, setModelSearch] = useState('');
+  const [modelPickerOpen, setModelPickerOpen] = useState(false);
+  const [toolsEnabled, setToolsEnabled] = useState(true);
+  const [webSearch, setWebSearch] = useState(false);
+  const [reasoningEffort, setReasoningEffort] = useState<ReasoningEffort>('auto');
+  // Models a compare-mode message goes to; null when compare mode is off
+  const [compareTargets, setCompareTargets] = useState<ModelRef[] | null>(null);
 
   // Cost tracking
   const [sessionCost, setSessionCost] = useState(0);
   const [settingsVersion, setSettingsVersion] = useState(0);
 
-  // Client-side state for API keys (to prevent hydration mismatch)
+  // Client-side state for API keys and providers (to prevent hydration mismatch)
   const [apiKeys, setApiKeys] = useState<ApiKeys>({});
+  const [providers, setProviders] = useState<Provider[]>([]);
   const [isClient, setIsClient] = useState(false);
 
   // Abort controller for streaming
@@ -82,52 +184,90 @@ export default function ChatPage() {
   useEffect(() => {
     const prefs = getPreferences();
     setApiKeys(getApiKeys());
+    setProviders(getProviders());
     setSelectedProvider(prefs.defaultProvider || 'openai');
     setSelectedModel(prefs.defaultModel || '');
+    setToolsEnabled(prefs.toolsEnabled !== false);
+    setWebSearch(prefs.webSearch === true);
+    setReasoningEffort(prefs.reasoningEffort || 'auto');
     setIsClient(true);
+    // Proxy mode: reload models once the server's keys are known
+    syncServerKeyProviders().then(changed => {
+      if (changed) setSettingsVersion(v => v + 1);
+    });
   }, []);
 
   // Get available providers (ones with API keys)
-  const availableProviders = isClient ? Object.values(PROVIDERS).filter(
-    p => apiKeys[p.id]
+  const availableProviders = isClient ? providers.filter(
+    p => apiKeys[p.id] || hasServerKey(p.id)
   ) : [];
+  const selectedProviderReady = isClient && isProviderReady(selectedProvider, apiKeys);
 
-  // Load models when provider changes
-  useEffect(() => {
-    if (!isClient) return; // Don't run on server
+  // Provider whose models are on screen, so late responses for another one are ignored
+  const modelsProviderRef = useRef<ProviderId | null>(null);
 
-    const loadModels = async () => {
-      const apiKey = apiKeys[selectedProvider];
-      if (!apiKey) {
-        setModels([]);
-        setSelectedModel('');
-        return;
-      }
+  // Cached model lists show instantly and are refreshed in the background once
+  // stale; `force` always goes to the network
+  const loadModels = useCallback(async (providerId: ProviderId, force = false) => {
+    modelsProviderRef.current = providerId;
+
+    if (!isProviderReady(providerId, apiKeys)) {
+      setModels([]);
+      setSelectedModel('');
+      return;
+    }
+
+    // Select first model if none selected; embedding models can't chat
+    const showModels = (list: Model[]) => {
+      const chatModels = list.filter(m => !isEmbeddingModel(m));
+      setModels(chatModels);
+      setSelectedModel(current => current || chatModels[0]?.id || '');
+    };
 
+    const cached = getCachedModels(providerId);
+    if (cached) {
+      showModels(cached.models);
+      if (!force && !isModelCacheStale(cached)) return;
+      setRefreshingModels(true);
+    } else {
       setLoadingModels(true);
-      setError(null);
+    }
 
-      try {
-        const adapter = getAdapter(selectedProvider);
-        const fetchedModels = await adapter.fetchModels(apiKey);
-        setModels(fetchedModels);
-        setModelSearch(''); // Reset search when provider changes
-
-        // Select first model if none selected
-        if (fetchedModels.length > 0 && !selectedModel) {
-          setSelectedModel(fetchedModels[0].id);
-        }
-      } catch (err) {
-        console.error('Failed to fetch models:', err);
-        setError(`Failed to load models: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    try {
+      const fetchedModels = await getAdapter(providerId).fetchModels(apiKeys[providerId] ?? '');
+      // The built-in Anthropic list stands in when /v1/models fails; cache it as already stale
+      setCachedModels(providerId, fetchedModels, isAnthropicFallbackModelList(fetchedModels) ? 0 : undefined);
+      if (modelsProviderRef.current === providerId) {
+        showModels(fetchedModels);
+      }
+    } catch (err) {
+      console.error('Failed to fetch models:', err);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      if (!cached) {
+        setError(`Failed to load models: ${message}`);
         setModels([]);
-      } finally {
-        setLoadingModels(false);
+      } else if (force) {
+        // Background refreshes fail quietly; the cached list is still usable
+        setError(`Failed to refresh models: ${message}`);
       }
+    } finally {
+      setLoadingModels(false);
+      setRefreshingModels(false);
+    }
+  }, [apiKeys]);
+
+  // Load models when provider changes
+  useEffect(() => {
+    if (!isClient) return; // Don't run on server
+
+    const load = async () => {
+      setError(null);
+      setModelSearch(''); // Reset search when provider changes
+      await loadModels(selectedProvider);
     };
 
-    loadModels();
-  }, [selectedProvider, apiKeys[selectedProvider]]);
+    load();
+  }, [selectedProvider, apiKeys[selectedProvider], settingsVersion]);
 
   // Save selection to preferences
   useEffect(() => {
@@ -199,6 +339,337 @@ export default function ChatPage() {
     }
   }, [conversation]);
 
+  // Per-conversation sampling overrides; a chat that hasn't been sent yet keeps them in memory
+  const generationSettings = conversation?.generationSettings;
+  // Per-conversation fallback models; the global chain from Settings applies when unset
+  const fallbackChain = conversation?.fallbackChain;
+  // Per-conversation OpenRouter routing; the global routing from Settings applies when unset
+  const openRouterRouting = conversation?.openRouterRouting;
+  const imageOptions = conversation?.imageOptions ?? DEFAULT_IMAGE_OPTIONS;
+
+  const handleGenerationSettingsChange = (settings: GenerationSettings) => {
+    const base = conversation ?? createNewConversation(selectedProvider, selectedModel);
+    const updated: Conversation = {
+      ...base,
+      generationSettings: Object.keys(settings).length > 0 ? settings : undefined,
+    };
+    setConversation(updated);
+    if (updated.messages.length > 0) {
+      saveConversation(updated);
+    }
+  };
+
+  const handleFallbackChainChange = (chain: ModelRef[] | undefined) => {
+    const base = conversation ?? createNewConversation(selectedProvider, selectedModel);
+    const updated: Conversation = { ...base, fallbackChain: chain };
+    setConversation(updated);
+    if (updated.messages.length > 0) {
+      saveConversation(updated);
+    }
+  };
+
+  const handleOpenRouterRoutingChange = (routing: OpenRouterRouting | undefined) => {
+    const base = conversation ?? createNewConversation(selectedProvider, selectedModel);
+    const updated: Conversation = { ...base, openRouterRouting: routing };
+    setConversation(updated);
+    if (updated.messages.length > 0) {
+      saveConversation(updated);
+    }
+  };
+
+  const handleImageOptionsChange = (options: ImageOptions) => {
+    const base = conversation ?? createNewConversation(selectedProvider, selectedModel);
+    const updated: Conversation = { ...base, imageOptions: options };
+    setConversation(updated);
+    if (updated.messages.length > 0) {
+      saveConversation(updated);
+    }
+  };
+
+  // Stream a reply into the assistant placeholder. When the model calls tools, run them,
+  // append their results and keep going until it produces a final answer.
+  const generateReply = useCallback(async (
+    apiMessages: Message[],
+    assistantId: string,
+    conversationPatch: Partial<Conversation> = {}
+  ): Promise<void> => {
+    const signal = abortControllerRef.current?.signal;
+
+    // Everything needed to send the request to one model
+    const prepare = (ref: ModelRef) => {
+      const model = ref.providerId === selectedProvider
+        ? models.find(m => m.id === ref.modelId)
+        : getCachedModels(ref.providerId)?.models.find(m => m.id === ref.modelId);
+
+      const config: ChatConfig = {
+        ...getGenerationDefaults(ref.providerId),
+        ...generationSettings,
+        model: ref.modelId,
+        tools: getToolsConfig(toolsEnabled, model, apiMessages),
+        reasoningEffort: model?.supportsReasoning ? reasoningEffort : undefined,
+        promptCaching: getPreferences().promptCaching !== false,
+        webSearch: webSearch && model?.supportsWebSearch ? true : undefined,
+        openRouterRouting: openRouterRouting ?? getOpenRouterRouting(),
+      };
+
+      return { ref, model, config, adapter: getAdapter(ref.providerId), apiKey: apiKeys[ref.providerId] ?? '' };
+    };
+
+    // The selected model, then the fallback chain in order
+    const candidates = [{ providerId: selectedProvider, modelId: selectedModel }, ...(fallbackChain ?? getFallbackChain())]
+      .filter((ref, index, all) => all.findIndex(r => r.providerId === ref.providerId && r.modelId === ref.modelId) === index);
+    const fallbackAttempts: FallbackAttempt[] = [];
+    let candidateIndex = 0;
+    let active = prepare(candidates[0]);
+
+    // Move down the chain, skipping providers without a key
+    const nextCandidate = () => {
+      while (++candidateIndex < candidates.length) {
+        const ref = candidates[candidateIndex];
+        if (isProviderReady(ref.providerId, apiKeys)) return prepare(ref);
+        fallbackAttempts.push({ ...ref, reason: 'No API key configured' });
+      }
+      return undefined;
+    };
+
+    let history = apiMessages;
+    let messageId = assistantId;
+
+    for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+      let fullResponse = '';
+      let fullReasoning = '';
+      const toolCalls: ToolCall[] = [];
+      const images: Attachment[] = [];
+      let startTime = Date.now();
+      let produced = false;
+
+      const streamStep = () => new Promise<{
+        response: string;
+        usage?: TokenUsage;
+        reasoningSignature?: string;
+        citations?: Citation[];
+        upstreamProvider?: string;
+        finishReason?: FinishReason;
+      }>((resolve, reject) => {
+        active.adapter.streamChat(
+          history,
+          active.config,
+          active.apiKey,
+          {
+            onToken: (token) => {
+              fullResponse += token;
+              produced = true;
+              setRetryState(null);
+              setConversation(prev => {
+                if (!prev) return prev;
+                const messages = prev.messages.map(m =>
+                  m.id === messageId
+                    ? { ...m, content: fullResponse }
+                    : m
+                );
+                return { ...prev, ...conversationPatch, messages };
+              });
+            },
+            onReasoning: (token) => {
+              fullReasoning += token;
+              produced = true;
+              setRetryState(null);
+              setConversation(prev => {
+                if (!prev) return prev;
+                const messages = prev.messages.map(m =>
+                  m.id === messageId
+                    ? { ...m, reasoning: fullReasoning }
+                    : m
+                );
+                return { ...prev, ...conversationPatch, messages };
+              });
+            },
+            onToolCall: (call) => {
+              toolCalls.push(call);
+              produced = true;
+            },
+            onImage: (image) => {
+              images.push(image);
+              produced = true;
+              setConversation(prev => {
+                if (!prev) return prev;
+                const messages = prev.messages.map(m =>
+                  m.id === messageId
+                    ? { ...m, attachments: [...images] }
+                    : m
+                );
+                return { ...prev, ...conversationPatch, messages };
+              });
+            },
+            onRetry: (retry) => {
+              setRetryState({ retry, resumeAt: Date.now() + retry.delayMs });
+            },
+            onComplete: (fullResponse, info) => resolve({
+              response: fullResponse,
+              usage: info?.usage,
+              reasoningSignature: info?.reasoningSignature,
+              citations: info?.citations,
+              upstreamProvider: info?.upstreamProvider,
+              finishReason: info?.finishReason,
+            }),
+            onError: reject,
+          },
+          signal
+        ).catch(reject);
+      }).finally(() => setRetryState(null));
+
+      // Image models answer the latest prompt through the image API instead of a chat stream
+      const imageStep = async () => {
+        const { adapter, ref, apiKey } = active;
+        if (!adapter.generateImages) {
+          throw new Error(`Image generation isn't supported for ${ref.providerId}`);
+        }
+        const prompt = [...history].reverse().find(m => m.role === 'user')?.content ?? '';
+        const result = await adapter.generateImages(prompt, { ...imageOptions, model: ref.modelId }, apiKey, signal);
+        images.push(...result.images);
+        return { response: result.revisedPrompt ?? '', usage: result.usage };
+      };
+
+      // Only the opening request falls back: once a model has answered, tool
+      // follow-ups stay with it. A failure after output has started is final.
+      let result: Awaited<ReturnType<typeof streamStep>>;
+      for (;;) {
+        try {
+          result = await (active.model?.kind === 'image' ? imageStep() : streamStep());
+          break;
+        } catch (err) {
+          const aborted = signal?.aborted || (err instanceof Error && err.name === 'AbortError');
+          const recoverable = err instanceof ProviderError && FALLBACK_KINDS.has(err.kind);
+          if (step > 0 || produced || aborted || !recoverable) throw err;
+
+          fallbackAttempts.push({ ...active.ref, reason: err.message });
+          const next = nextCandidate();
+          if (!next && fallbackAttempts.length > 1) {
+            // The whole chain failed: drop the empty reply and report every model's failure
+            setConversation(prev => {
+              if (!prev) return prev;
+              const updated = { ...prev, ...conversationPatch, messages: prev.messages.filter(m => m.id !== messageId) };
+              saveConversation(updated);
+              return updated;
+            });
+            throw withFallbackAttempts(err, fallbackAttempts);
+          }
+          if (!next) throw err;
+          active = next;
+          startTime = Date.now();
+        }
+      }
+      const { response, usage, reasoningSignature, citations, upstreamProvider, finishReason } = result;
+
+      const endTime = Date.now();
+      const duration = (endTime - startTime) / 1000;
+      // Prefer the provider's own counts; estimate only when none were reported (e.g. aborted streams)
+      const outputTokens = usage?.outputTokens
+        ?? estimateTokens(response + toolCalls.map(c => c.name + c.arguments).join(''));
+      const inputTokens = usage?.inputTokens
+        ?? history.reduce((acc, m) => acc + estimateTokens(m.content, m.attachments), 0);
+      const cost = estimateCost(active.ref.providerId, active.ref.modelId, {
+        ...(usage ?? { inputTokens, outputTokens }),
+        ...(images.length > 0 ? { images: images.length } : {}),
+      }, active.model?.pricing);
+
+      const assistantTurn: Message = {
+        id: messageId,
+        role: 'assistant',
+        content: response,
+        timestamp: Date.now(),
+        tokenCount: outputTokens,
+        timing: duration,
+        model: active.ref.modelId,
+        providerId: active.ref.providerId,
+        ...(step === 0 && fallbackAttempts.length > 0 ? { fallbackAttempts } : {}),
+        ...(usage ? { usage } : {}),
+        ...(fullReasoning ? {
+          reasoning: fullReasoning,
+          reasoningTokenCount: usage?.reasoningTokens ?? estimateTokens(fullReasoning),
+          reasoningSignature,
+        } : {}),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        ...(images.length > 0 ? { attachments: images } : {}),
+        ...(citations?.length ? { citations } : {}),
+        ...(upstreamProvider ? { upstreamProvider } : {}),
+        ...(finishReason ? { finishReason } : {}),
+      };
+
+      const done = toolCalls.length === 0 || !!signal?.aborted;
+
+      // Run the requested tools before touching state so results land in one update
+      const toolMessages: Message[] = [];
+      if (!done) {
+        for (const call of toolCalls) {
+          const result = await executeToolCall(call);
+          toolMessages.push({
+            id: uuidv4(),
+            role: 'tool',
+            content: result.content,
+            timestamp: Date.now(),
+            tokenCount: estimateTokens(result.content),
+            toolCallId: call.id,
+            toolName: call.name,
+            ...(result.isError ? { toolError: true } : {}),
+          });
+        }
+      }
+
+      const nextAssistant: Message | undefined = done ? undefined : {
+        id: uuidv4(),
+        role: 'assistant',
+        content: '',
+        timestamp: Date.now(),
+      };
+
+      setConversation(prev => {
+        if (!prev) return prev;
+        const messages = prev.messages.flatMap(m =>
+          m.id === messageId
+            ? [{ ...m, ...assistantTurn, timestamp: m.timestamp }, ...toolMessages, ...(nextAssistant ? [nextAssistant] : [])]
+            : [m]
+        );
+        const updated = {
+          ...prev,
+          ...conversationPatch,
+          messages,
+          totalCost: (prev.totalCost || 0) + cost,
+        };
+        saveConversation(updated);
+        return updated;
+      });
+      setSessionCost(prev => prev + cost);
+
+      if (!nextAssistant) return;
+
+      history = [...history, assistantTurn, ...toolMessages];
+      messageId = nextAssistant.id;
+      setStreamingMessageId(messageId);
+    }
+
+    throw new Error(`Stopped after ${MAX_TOOL_STEPS} tool calls without a final answer.`);
+  }, [selectedProvider, selectedModel, apiKeys, models, toolsEnabled, webSearch, reasoningEffort, generationSettings, fallbackChain, openRouterRouting, imageOptions]);
+
+  // React to a failed generation according to what went wrong
+  const handleGenerationError = useCallback((err: unknown) => {
+    if (!(err instanceof Error) || err.name === 'AbortError') return;
+    if (!(err instanceof ProviderError)) {
+      setError(err.message);
+      return;
+    }
+
+    if (err.kind === 'unsupported_feature' && err.feature === 'system_prompt') {
+      setSystemPromptWarningOpen(true);
+      return;
+    }
+    if (err.kind === 'auth') {
+      setApiKeyNeededProvider(err.providerId);
+      setTempApiKey('');
+    }
+    setError(err);
+  }, []);
+
   // Retry logic without system prompt
   const handleContinueWithoutSystemPrompt = useCallback(async () => {
     setSystemPromptWarningOpen(false);
@@ -219,97 +690,22 @@ export default function ChatPage() {
     setError(null);
 
     try {
-      const apiKey = apiKeys[selectedProvider];
-      if (!apiKey) throw new Error("No API key");
-
-      const adapter = getAdapter(selectedProvider);
-      const config: ChatConfig = {
-        model: selectedModel,
-        temperature: 0.7,
-        maxTokens: 4096,
-        // Explicitly NO system prompt here
-        systemPrompt: undefined,
-      };
-
-      // Exclude the empty assistant message for the API call
-      const apiMessages = conversation.messages.slice(0, -1);
-
-      let fullResponse = '';
-      const startTime = Date.now();
-
-      await adapter.streamChat(
-        apiMessages,
-        config,
-        apiKey,
-        {
-          onToken: (token) => {
-            fullResponse += token;
-            setConversation(prev => {
-              if (!prev) return prev;
-              const messages = prev.messages.map(m =>
-                m.id === lastMessage.id
-                  ? { ...m, content: fullResponse }
-                  : m
-              );
-              // Also persist that we disabled system prompts for this chat
-              return { ...prev, messages, disableSystemPrompt: true };
-            });
-          },
-          onComplete: (response) => {
-            const endTime = Date.now();
-            const duration = (endTime - startTime) / 1000;
-            const outputTokens = estimateTokens(response);
-            const inputTokens = apiMessages.reduce((acc, m) => acc + estimateTokens(m.content), 0);
-            const cost = adapter.estimateCost(inputTokens, outputTokens, selectedModel);
+      if (!isProviderReady(selectedProvider, apiKeys)) throw new Error("No API key");
 
-            setConversation(prev => {
-              if (!prev) return prev;
-              const messages = prev.messages.map(m =>
-                m.id === lastMessage.id
-                  ? {
-                    ...m,
-                    content: response,
-                    tokenCount: outputTokens,
-                    timing: duration,
-                    model: selectedModel
-                  }
-                  : m
-              );
-              const updated = {
-                ...prev,
-                messages,
-                totalCost: (prev.totalCost || 0) + cost,
-                disableSystemPrompt: true, // Persist here too to be safe
-              };
-              saveConversation(updated);
-              return updated;
-            });
-
-            setSessionCost(prev => prev + cost);
-            setIsLoading(false);
-            setStreamingMessageId(undefined);
-          },
-          onError: (err) => {
-            setError(err.message);
-            setIsLoading(false);
-            setStreamingMessageId(undefined);
-          },
-        },
-        abortControllerRef.current.signal
-      );
+      // Exclude the empty assistant message for the API call, and explicitly
+      // persist that we disabled system prompts for this chat
+      await generateReply(conversation.messages.slice(0, -1), lastMessage.id, { disableSystemPrompt: true });
     } catch (err) {
-      if (err instanceof Error && err.name !== 'AbortError') {
-        setError(err.message);
-      }
+      handleGenerationError(err);
+    } finally {
       setIsLoading(false);
       setStreamingMessageId(undefined);
     }
-  }, [conversation, selectedProvider, selectedModel, apiKeys]);
+  }, [conversation, selectedProvider, apiKeys, generateReply, handleGenerationError]);
 
   // Send message
   const handleSend = useCallback(async (content: string, attachments?: Attachment[]) => {
-    const apiKey = apiKeys[selectedProvider];
-    if (!apiKey || !selectedModel) {
+    if (!isProviderReady(selectedProvider, apiKeys) || !selectedModel) {
       setError('Please configure an API key and select a model');
       return;
     }
@@ -317,6 +713,12 @@ export default function ChatPage() {
     setError(null);
     setIsLoading(true);
 
+    // Models without PDF input get the text (and, for vision models, page images) instead
+    const currentModel = models.find(m => m.id === selectedModel);
+    if (attachments?.some(isPdfAttachment) && !supportsNativePdf(selectedProvider, currentModel)) {
+      attachments = await preparePdfAttachments(attachments, !!currentModel?.supportsImages);
+    }
+
     // Create or update conversation
     let currentConv = conversation;
     if (!currentConv) {
@@ -365,114 +767,214 @@ export default function ChatPage() {
     abortControllerRef.current = new AbortController();
 
     try {
-      const adapter = getAdapter(selectedProvider);
-      const config: ChatConfig = {
-        model: selectedModel,
-        temperature: 0.7,
-        maxTokens: 4096,
-        systemPrompt: getPreferences().systemPrompt,
-      };
-
       // Build messages for API (exclude the empty assistant message)
-      let apiMessages = updatedMessages.slice(0, -1);
+      const apiMessages = withSystemPrompt(updatedMessages.slice(0, -1), currentConv.disableSystemPrompt);
 
-      const userSystemPrompt = getPreferences().systemPrompt;
-      const systemPrompt = userSystemPrompt && userSystemPrompt.trim().length > 0
-        ? userSystemPrompt
-        : "You are a friendly and helpful AI assistant. Always try your best to assist the user. If you don't know the answer, just say so. Don't make things up. Don't make promises you can't keep. Don't make up dates or times.";
+      /* 
+       * Auto-title feature removed by user request. 
+       * Basic title is set in handleSend via generateConversationTitle (first 50 chars).
+       */
+      await generateReply(apiMessages, assistantMessage.id);
+    } catch (err) {
+      handleGenerationError(err);
+    } finally {
+      setIsLoading(false);
+      setStreamingMessageId(undefined);
+    }
+  }, [conversation, selectedProvider, selectedModel, apiKeys, models, generateReply, handleGenerationError]);
+
+  // Model list for a provider other than the selected one (compare mode)
+  const fetchModelList = useCallback(async (providerId: ProviderId): Promise<Model[]> => {
+    // Comparisons stream text, so embedding and image-only models can't take part
+    const canCompare = (m: Model) => !isEmbeddingModel(m) && m.kind !== 'image';
+    const cached = getCachedModels(providerId);
+    if (cached && !isModelCacheStale(cached)) return cached.models.filter(canCompare);
+
+    const fetchedModels = await getAdapter(providerId).fetchModels(apiKeys[providerId] ?? '');
+    setCachedModels(providerId, fetchedModels);
+    return fetchedModels.filter(canCompare);
+  }, [apiKeys]);
+
+  // Compare mode: send one prompt to every target at once. Responses stream into
+  // their own columns without tools; the user then picks one to continue with.
+  const handleCompareSend = useCallback(async (content: string, attachments?: Attachment[]) => {
+    const targets = compareTargets ?? [];
+    if (targets.length < MIN_COMPARE_TARGETS) {
+      setError(`Pick at least ${MIN_COMPARE_TARGETS} models to compare`);
+      return;
+    }
 
-      // Only add system prompt if NOT disabled for this chat
-      if (!currentConv.disableSystemPrompt) {
-        apiMessages = [
-          {
-            id: 'system',
-            role: 'system',
-            content: systemPrompt,
-            timestamp: Date.now(),
-          },
-          ...apiMessages
-        ];
-      }
+    setError(null);
+    setIsLoading(true);
+
+    const modelFor = (target: ModelRef) =>
+      getCachedModels(target.providerId)?.models.find(m => m.id === target.modelId);
+
+    if (attachments?.some(isPdfAttachment) && targets.some(t => !supportsNativePdf(t.providerId, modelFor(t)))) {
+      attachments = await preparePdfAttachments(attachments, targets.some(t => modelFor(t)?.supportsImages));
+    }
+
+    const currentConv = conversation ?? createNewConversation(selectedProvider, selectedModel);
+
+    const userMessage: Message = {
+      id: uuidv4(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+      tokenCount: estimateTokens(content, attachments),
+      attachments,
+    };
+
+    const comparison: Comparison = {
+      id: uuidv4(),
+      userMessageId: userMessage.id,
+      responses: targets.map(target => ({ ...target, id: uuidv4(), content: '', status: 'streaming' })),
+      createdAt: Date.now(),
+    };
+
+    const updatedConv: Conversation = {
+      ...currentConv,
+      messages: [...currentConv.messages, userMessage],
+      title: currentConv.messages.length === 0 ? generateConversationTitle(content) : currentConv.title,
+      updatedAt: Date.now(),
+      comparisons: [...(currentConv.comparisons ?? []), comparison],
+    };
+
+    setConversation(updatedConv);
+    saveConversation(updatedConv);
+
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+    const apiMessages = withSystemPrompt(updatedConv.messages, currentConv.disableSystemPrompt);
+
+    const updateResponse = (responseId: string, patch: Partial<ComparisonResponse>) => {
+      setConversation(prev => {
+        if (!prev) return prev;
+        const comparisons = prev.comparisons?.map(c => c.id === comparison.id
+          ? { ...c, responses: c.responses.map(r => r.id === responseId ? { ...r, ...patch } : r) }
+          : c
+        );
+        return { ...prev, comparisons };
+      });
+    };
+
+    // Resolves to the response's cost; failures stay in their own column
+    const streamResponse = async (target: ComparisonResponse): Promise<number> => {
+      const model = modelFor(target);
+      const config: ChatConfig = {
+        ...getGenerationDefaults(target.providerId),
+        ...generationSettings,
+        model: target.modelId,
+        // Tool calls aren't run in compare mode, so tools are only declared for earlier tool turns
+        tools: getToolsConfig(false, model, apiMessages),
+        reasoningEffort: model?.supportsReasoning ? reasoningEffort : undefined,
+        promptCaching: getPreferences().promptCaching !== false,
+        openRouterRouting: openRouterRouting ?? getOpenRouterRouting(),
+      };
 
       let fullResponse = '';
+      let fullReasoning = '';
       const startTime = Date.now();
 
-      await adapter.streamChat(
-        apiMessages,
-        config,
-        apiKey,
-        {
-          onToken: (token) => {
-            fullResponse += token;
-            setConversation(prev => {
-              if (!prev) return prev;
-              const messages = prev.messages.map(m =>
-                m.id === assistantMessage.id
-                  ? { ...m, content: fullResponse }
-                  : m
-              );
-              return { ...prev, messages };
-            });
-          },
-          onComplete: (response) => {
-            const endTime = Date.now();
-            const duration = (endTime - startTime) / 1000;
-            const outputTokens = estimateTokens(response);
-            const inputTokens = apiMessages.reduce((acc, m) => acc + estimateTokens(m.content, m.attachments), 0);
-            const cost = adapter.estimateCost(inputTokens, outputTokens, selectedModel);
-
-            // Generate auto-title if this was the first message
-            /* 
-             * Auto-title feature removed by user request. 
-             * Basic title is set in handleSend via generateConversationTitle (first 50 chars).
-             */
+      try {
+        const { response, usage } = await new Promise<{ response: string; usage?: TokenUsage }>((resolve, reject) => {
+          getAdapter(target.providerId).streamChat(
+            apiMessages,
+            config,
+            apiKeys[target.providerId] ?? '',
+            {
+              onToken: (token) => {
+                fullResponse += token;
+                updateResponse(target.id, { content: fullResponse });
+              },
+              onReasoning: (token) => {
+                fullReasoning += token;
+                updateResponse(target.id, { reasoning: fullReasoning });
+              },
+              onComplete: (fullResponse, info) => resolve({ response: fullResponse, usage: info?.usage }),
+              onError: reject,
+            },
+            signal
+          ).catch(reject);
+        });
+
+        const outputTokens = usage?.outputTokens ?? estimateTokens(response);
+        const inputTokens = usage?.inputTokens
+          ?? apiMessages.reduce((acc, m) => acc + estimateTokens(m.content, m.attachments), 0);
+        const cost = estimateCost(target.providerId, target.modelId, usage ?? { inputTokens, outputTokens }, model?.pricing);
+
+        updateResponse(target.id, {
+          content: response,
+          status: 'done',
+          tokenCount: outputTokens,
+          timing: (Date.now() - startTime) / 1000,
+          cost,
+          ...(usage ? { usage } : {}),
+          ...(fullReasoning ? { reasoning: fullReasoning } : {}),
+        });
+        return cost;
+      } catch (err) {
+        updateResponse(target.id, {
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Unknown error',
+          timing: (Date.now() - startTime) / 1000,
+        });
+        return 0;
+      }
+    };
 
-            setConversation(prev => {
-              if (!prev) return prev;
-              const messages = prev.messages.map(m =>
-                m.id === assistantMessage.id
-                  ? {
-                    ...m,
-                    content: response,
-                    tokenCount: outputTokens,
-                    timing: duration,
-                    model: selectedModel
-                  }
-                  : m
-              );
-              const updated = {
-                ...prev,
-                messages,
-                totalCost: (prev.totalCost || 0) + cost,
-              };
-              saveConversation(updated);
-              return updated;
-            });
+    const costs = await Promise.all(comparison.responses.map(streamResponse));
+    const cost = costs.reduce((acc, c) => acc + c, 0);
 
-            setSessionCost(prev => prev + cost);
-            setIsLoading(false);
-            setStreamingMessageId(undefined);
-          },
-          onError: (err) => {
-            setError(err.message);
-            setIsLoading(false);
-            setStreamingMessageId(undefined);
-          },
-        },
-        abortControllerRef.current.signal
-      );
-    } catch (err) {
-      if (err instanceof Error && err.name !== 'AbortError') {
-        if (err.message.includes('Developer instruction is not enabled')) {
-          setSystemPromptWarningOpen(true);
-        } else {
-          setError(err.message);
-        }
-      }
-      setIsLoading(false);
-      setStreamingMessageId(undefined);
-    }
-  }, [conversation, selectedProvider, selectedModel, apiKeys]);
+    setConversation(prev => {
+      if (!prev) return prev;
+      const updated = { ...prev, totalCost: (prev.totalCost || 0) + cost };
+      saveConversation(updated);
+      return updated;
+    });
+    setSessionCost(prev => prev + cost);
+    setIsLoading(false);
+  }, [compareTargets, conversation, selectedProvider, selectedModel, apiKeys, generationSettings, openRouterRouting, reasoningEffort]);
+
+  // Keep the chosen comparison response as the assistant reply and switch to its model
+  const handlePickWinner = useCallback((comparisonId: string, responseId: string) => {
+    if (!conversation) return;
+    const comparison = conversation.comparisons?.find(c => c.id === comparisonId);
+    const winner = comparison?.responses.find(r => r.id === responseId);
+    if (!comparison || !winner) return;
+
+    const assistantMessage: Message = {
+      id: uuidv4(),
+      role: 'assistant',
+      content: winner.content,
+      timestamp: Date.now(),
+      tokenCount: winner.tokenCount,
+      timing: winner.timing,
+      model: winner.modelId,
+      providerId: winner.providerId,
+      ...(winner.usage ? { usage: winner.usage } : {}),
+      ...(winner.reasoning ? { reasoning: winner.reasoning } : {}),
+    };
+
+    const index = conversation.messages.findIndex(m => m.id === comparison.userMessageId);
+    const messages = [...conversation.messages];
+    messages.splice(index + 1, 0, assistantMessage);
+
+    const updated: Conversation = {
+      ...conversation,
+      messages,
+      comparisons: conversation.comparisons?.map(c => c.id === comparisonId ? { ...c, winnerId: responseId } : c),
+      providerId: winner.providerId,
+      modelId: winner.modelId,
+      updatedAt: Date.now(),
+    };
+    setConversation(updated);
+    saveConversation(updated);
+
+    setSelectedProvider(winner.providerId);
+    setSelectedModel(winner.modelId);
+    setCompareTargets(null);
+  }, [conversation]);
 
   // Retry message
   const handleRetry = useCallback(async (messageId: string) => {
@@ -481,8 +983,7 @@ export default function ChatPage() {
     const index = conversation.messages.findIndex(m => m.id === messageId);
     if (index === -1) return;
 
-    const apiKey = apiKeys[selectedProvider];
-    if (!apiKey || !selectedModel) {
+    if (!isProviderReady(selectedProvider, apiKeys) || !selectedModel) {
       setError('Please configure an API key and select a model');
       return;
     }
@@ -514,14 +1015,6 @@ export default function ChatPage() {
     abortControllerRef.current = new AbortController();
 
     try {
-      const adapter = getAdapter(selectedProvider);
-      const config: ChatConfig = {
-        model: selectedModel,
-        temperature: 0.7,
-        maxTokens: 4096,
-        systemPrompt: getPreferences().systemPrompt,
-      };
-
       let apiMessages = [...apiMessagesFull];
       const userSystemPrompt = getPreferences().systemPrompt;
       const systemPrompt = userSystemPrompt && userSystemPrompt.trim().length > 0
@@ -540,90 +1033,212 @@ export default function ChatPage() {
         ];
       }
 
-      let fullResponse = '';
-      const startTime = Date.now();
+      await generateReply(apiMessages, assistantMessage.id);
+    } catch (err) {
+      handleGenerationError(err);
+    } finally {
+      setIsLoading(false);
+      setStreamingMessageId(undefined);
+    }
+  }, [conversation, selectedProvider, selectedModel, apiKeys, generateReply, handleGenerationError]);
 
-      await adapter.streamChat(
-        apiMessages,
-        config,
-        apiKey,
-        {
-          onToken: (token) => {
-            fullResponse += token;
-            setConversation(prev => {
-              if (!prev) return prev;
-              const messages = prev.messages.map(m =>
-                m.id === assistantMessage.id
-                  ? { ...m, content: fullResponse }
-                  : m
-              );
-              return { ...prev, messages };
-            });
-          },
-          onComplete: (response) => {
-            const endTime = Date.now();
-            const duration = (endTime - startTime) / 1000;
-            const outputTokens = estimateTokens(response);
-            const inputTokens = apiMessages.reduce((acc, m) => acc + estimateTokens(m.content, m.attachments), 0);
-            const cost = adapter.estimateCost(inputTokens, outputTokens, selectedModel);
+  // Ask the model that wrote a cut-off reply to carry on. The continuation is appended to
+  // the same message, and its tokens, time and cost are added to the reply's.
+  const handleContinue = useCallback(async (messageId: string) => {
+    if (!conversation) return;
 
-            setConversation(prev => {
-              if (!prev) return prev;
-              const messages = prev.messages.map(m =>
-                m.id === assistantMessage.id
-                  ? {
-                    ...m,
-                    content: response,
-                    tokenCount: outputTokens,
-                    timing: duration,
-                    model: selectedModel
-                  }
-                  : m
-              );
-              const updated = {
-                ...prev,
-                messages,
-                totalCost: (prev.totalCost || 0) + cost,
-              };
-              saveConversation(updated);
-              return updated;
-            });
+    const index = conversation.messages.findIndex(m => m.id === messageId);
+    const original = conversation.messages[index];
+    if (!original || original.role !== 'assistant') return;
 
-            setSessionCost(prev => prev + cost);
-            setIsLoading(false);
-            setStreamingMessageId(undefined);
-          },
-          onError: (err) => {
-            setError(err.message);
-            setIsLoading(false);
-            setStreamingMessageId(undefined);
+    const providerId = original.providerId ?? conversation.providerId;
+    const modelId = original.model ?? conversation.modelId;
+    if (!isProviderReady(providerId, apiKeys)) {
+      setError(`Please configure an API key for ${getProvider(providerId)?.name ?? providerId} to continue this reply`);
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+    setStreamingMessageId(messageId);
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+
+    const model = providerId === selectedProvider
+      ? models.find(m => m.id === modelId)
+      : getCachedModels(providerId)?.models.find(m => m.id === modelId);
+    const history = withSystemPrompt([
+      ...conversation.messages.slice(0, index + 1),
+      { id: 'continue', role: 'user', content: CONTINUE_PROMPT, timestamp: Date.now() },
+    ], conversation.disableSystemPrompt);
+    const config: ChatConfig = {
+      ...getGenerationDefaults(providerId),
+      ...generationSettings,
+      model: modelId,
+      tools: getToolsConfig(toolsEnabled, model, history),
+      reasoningEffort: model?.supportsReasoning ? reasoningEffort : undefined,
+      promptCaching: getPreferences().promptCaching !== false,
+      openRouterRouting: openRouterRouting ?? getOpenRouterRouting(),
+    };
+
+    const showReply = (patch: Partial<Message>) => setConversation(prev => prev && {
+      ...prev,
+      messages: prev.messages.map(m => m.id === messageId ? { ...m, ...patch } : m),
+    });
+
+    let continuation = '';
+    let continuationReasoning = '';
+    const startTime = Date.now();
+
+    try {
+      const { response, usage, finishReason } = await new Promise<{
+        response: string;
+        usage?: TokenUsage;
+        finishReason?: FinishReason;
+      }>((resolve, reject) => {
+        getAdapter(providerId).streamChat(
+          history,
+          config,
+          apiKeys[providerId] ?? '',
+          {
+            onToken: (token) => {
+              continuation += token;
+              setRetryState(null);
+              showReply({ content: original.content + continuation });
+            },
+            onReasoning: (token) => {
+              continuationReasoning += token;
+              setRetryState(null);
+              showReply({ reasoning: (original.reasoning ?? '') + continuationReasoning });
+            },
+            onRetry: (retry) => {
+              setRetryState({ retry, resumeAt: Date.now() + retry.delayMs });
+            },
+            onComplete: (response, info) => resolve({ response, usage: info?.usage, finishReason: info?.finishReason }),
+            onError: reject,
           },
-        },
-        abortControllerRef.current.signal
-      );
+          signal
+        ).catch(reject);
+      }).finally(() => setRetryState(null));
+
+      const outputTokens = usage?.outputTokens ?? estimateTokens(response);
+      const inputTokens = usage?.inputTokens
+        ?? history.reduce((acc, m) => acc + estimateTokens(m.content, m.attachments), 0);
+      const cost = estimateCost(providerId, modelId, usage ?? { inputTokens, outputTokens }, model?.pricing);
+
+      const continued: Message = {
+        ...original,
+        content: original.content + response,
+        tokenCount: (original.tokenCount ?? 0) + outputTokens,
+        timing: (original.timing ?? 0) + (Date.now() - startTime) / 1000,
+        // Reported usage only stays when both parts have it
+        usage: original.usage && usage ? continueUsage(original.usage, usage) : undefined,
+        ...(continuationReasoning ? {
+          reasoning: (original.reasoning ?? '') + continuationReasoning,
+          reasoningTokenCount: (original.reasoningTokenCount ?? 0) + (usage?.reasoningTokens ?? estimateTokens(continuationReasoning)),
+        } : {}),
+        // Aborted streams report no reason, so the reply still counts as cut off
+        finishReason: finishReason ?? original.finishReason,
+      };
+
+      setConversation(prev => {
+        if (!prev) return prev;
+        const updated = {
+          ...prev,
+          messages: prev.messages.map(m => m.id === messageId ? continued : m),
+          totalCost: (prev.totalCost || 0) + cost,
+        };
+        saveConversation(updated);
+        return updated;
+      });
+      setSessionCost(prev => prev + cost);
     } catch (err) {
-      if (err instanceof Error && err.name !== 'AbortError') {
-        setError(err.message);
-      }
+      showReply({ content: original.content, reasoning: original.reasoning });
+      handleGenerationError(err);
+    } finally {
       setIsLoading(false);
       setStreamingMessageId(undefined);
     }
-  }, [conversation, selectedProvider, selectedModel, apiKeys]);
+  }, [conversation, selectedProvider, apiKeys, models, generationSettings, openRouterRouting, reasoningEffort, toolsEnabled, handleGenerationError]);
+
+  // Find how many of the oldest turns to drop for the history to fit the model's context window again.
+  // Provider-reported usage covers the old context, so plain estimates are used here.
+  // Nothing is removed until the user confirms.
+  const handleTrimContext = () => {
+    if (!conversation) return;
+
+    const messages = conversation.messages;
+    const countTokens = (m: Message) => m.tokenCount || estimateTokens(m.content, m.attachments);
+    const contextLength = models.find(m => m.id === selectedModel)?.contextLength;
+    let total = messages.reduce((acc, m) => acc + countTokens(m), 0);
+    const target = contextLength ? contextLength * 0.75 : total / 2;
+
+    // Cut only at user turns so tool calls stay paired with their results,
+    // and never past the latest user message
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+    let start = 0;
+    while (total > target && start < lastUserIndex) {
+      let next = start + 1;
+      while (next < lastUserIndex && messages[next].role !== 'user') next++;
+      total -= messages.slice(start, next).reduce((acc, m) => acc + countTokens(m), 0);
+      start = next;
+    }
+
+    if (start === 0) {
+      setError('Nothing can be trimmed: the latest message alone exceeds the context window.');
+      return;
+    }
+    setTrimContextStart(start);
+  };
+
+  const handleConfirmTrimContext = () => {
+    if (!conversation || trimContextStart === null) return;
+
+    const messages = conversation.messages.slice(trimContextStart);
+    const keptIds = new Set(messages.map(m => m.id));
+    const now = Date.now();
+    const updated: Conversation = {
+      ...conversation,
+      messages,
+      comparisons: conversation.comparisons?.filter(c => keptIds.has(c.userMessageId)),
+      contextTrimmedAt: now,
+      updatedAt: now,
+    };
+    setConversation(updated);
+    saveConversation(updated);
+    setTrimContextStart(null);
+    setError(null);
+  };
+
+  const handleRetryLastMessage = () => {
+    const lastUser = conversation?.messages.filter(m => m.role === 'user').pop();
+    if (lastUser) handleRetry(lastUser.id);
+  };
 
   const handleSaveTempApiKey = () => {
     if (apiKeyNeededProvider && tempApiKey.trim()) {
       setApiKey(apiKeyNeededProvider, tempApiKey.trim());
       setApiKeys(prev => ({ ...prev, [apiKeyNeededProvider]: tempApiKey.trim() }));
-      setSelectedProvider(apiKeyNeededProvider);
-      setSelectedModel('');
+      // Replacing a rejected key keeps the current model
+      if (apiKeyNeededProvider !== selectedProvider) {
+        setSelectedProvider(apiKeyNeededProvider);
+        setSelectedModel('');
+      }
       setApiKeyNeededProvider(null);
       setTempApiKey('');
       setSettingsVersion(v => v + 1);
     }
   };
 
+  // A comparison without a winner must be resolved (or retried) before the chat goes on
+  const lastMessage = conversation?.messages[conversation.messages.length - 1];
+  const awaitingWinner = lastMessage?.role === 'user'
+    && !!conversation?.comparisons?.some(c => c.userMessageId === lastMessage.id && !c.winnerId);
+
   // Check if we can send messages
-  const canSendMessage = !!apiKeys[selectedProvider] && !!selectedModel && !loadingModels;
+  const canSendMessage = !awaitingWinner && (compareTargets
+    ? compareTargets.length >= MIN_COMPARE_TARGETS
+    : selectedProviderReady && !!selectedModel && !loadingModels);
 
   return (
     <div className="flex h-screen bg-background">
@@ -649,10 +1264,7 @@ export default function ChatPage() {
                 {(() => {
                   const currentModel = models.find(m => m.id === selectedModel);
                   if (currentModel?.contextLength && conversation) {
-                    const totalTokens = conversation.messages.reduce(
-                      (acc, m) => acc + (m.tokenCount || estimateTokens(m.content, m.attachments)),
-                      0
-                    );
+                    const totalTokens = estimateContextTokens(conversation.messages, conversation.contextTrimmedAt);
                     const usagePercent = (totalTokens / currentModel.contextLength) * 100;
                     const isNearLimit = usagePercent > 90;
                     const isAtLimit = usagePercent >= 100;
@@ -679,6 +1291,23 @@ export default function ChatPage() {
             )}
           </div>
           <div className="flex items-center gap-2">
+            <Button
+              variant={compareTargets ? 'secondary' : 'outline'}
+              size="sm"
+              className={cn(
+                "gap-2 rounded-full px-4 font-medium border-border/50 hover:bg-muted/50",
+                compareTargets && "text-primary"
+              )}
+              onClick={() => setCompareTargets(compareTargets
+                ? null
+                : selectedModel ? [{ providerId: selectedProvider, modelId: selectedModel }] : []
+              )}
+              disabled={isLoading}
+              title="Send the next message to several models side by side"
+            >
+              <Columns3 className="h-4 w-4" />
+              Compare
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -695,10 +1324,7 @@ export default function ChatPage() {
         {/* Context Limit Warning */}
         {(() => {
           const currentModel = models.find(m => m.id === selectedModel);
-          const totalTokens = conversation?.messages.reduce(
-            (acc, m) => acc + (m.tokenCount || estimateTokens(m.content, m.attachments)),
-            0
-          ) || 0;
+          const totalTokens = conversation ? estimateContextTokens(conversation.messages, conversation.contextTrimmedAt) : 0;
 
           if (currentModel?.contextLength && totalTokens >= currentModel.contextLength) {
             return (
@@ -725,20 +1351,60 @@ export default function ChatPage() {
         {error && (
           <div className="mx-4 mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-center gap-2 text-destructive">
             <AlertCircle className="h-4 w-4 flex-shrink-0" />
-            <p className="text-sm">{error}</p>
-            <Button
-              variant="ghost"
-              size="sm"
-              className="ml-auto"
-              onClick={() => setError(null)}
-            >
-              Dismiss
-            </Button>
+            <p className="text-sm">{error instanceof ProviderError ? error.message : error}</p>
+            <div className="ml-auto flex items-center gap-2">
+              {error instanceof ProviderError && error.kind === 'auth' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setApiKeyNeededProvider(error.providerId);
+                    setTempApiKey('');
+                  }}
+                >
+                  Update key
+                </Button>
+              )}
+              {error instanceof ProviderError && error.kind === 'context_length' && (
+                <Button variant="outline" size="sm" onClick={handleTrimContext}>
+                  Trim older messages
+                </Button>
+              )}
+              {error instanceof ProviderError && error.kind === 'model_not_found' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setError(null);
+                    setModelPickerOpen(true);
+                  }}
+                >
+                  Switch model
+                </Button>
+              )}
+              {error instanceof ProviderError && ['rate_limit', 'server', 'network'].includes(error.kind) && (
+                <Button variant="outline" size="sm" onClick={handleRetryLastMessage}>
+                  Retry
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setError(null)}
+              >
+                Dismiss
+              </Button>
+            </div>
           </div>
         )}
 
+        {/* Retry Countdown */}
+        {retryState && (
+          <RetryNotice retry={retryState.retry} resumeAt={retryState.resumeAt} />
+        )}
+
         {/* No API Key Warning */}
-        {isClient && availableProviders.length === 0 && (
+        {isClient && availableProviders.length === 0 && !selectedProviderReady && (
           <div className="mx-4 mt-4 p-4 bg-muted rounded-lg text-center">
             <p className="text-muted-foreground mb-2">
               No API keys configured. Add at least one to start chatting.
@@ -755,24 +1421,89 @@ export default function ChatPage() {
             messages={conversation?.messages || []}
             streamingMessageId={streamingMessageId}
             onRetry={handleRetry}
+            onContinue={isLoading ? undefined : handleContinue}
+            comparisons={conversation?.comparisons}
+            onPickWinner={handlePickWinner}
+            canPickWinner={!isLoading}
           />
         </div>
 
         {/* Input */}
         <div className="flex-shrink-0">
           <ChatInput
-            onSend={handleSend}
+            onSend={compareTargets ? handleCompareSend : handleSend}
             onStop={handleStop}
             isLoading={isLoading}
             disabled={!canSendMessage}
+            providerId={selectedProvider}
+            model={models.find(m => m.id === selectedModel)}
+            compareBar={compareTargets && (
+              <CompareBar
+                targets={compareTargets}
+                onChange={setCompareTargets}
+                providers={providers.filter(p => isProviderReady(p.id, apiKeys))}
+                loadModels={fetchModelList}
+                disabled={isLoading}
+              />
+            )}
+            modelSettings={
+              <>
+                {models.find(m => m.id === selectedModel)?.kind === 'image' ? (
+                  <ImageOptionsPopover
+                    options={imageOptions}
+                    onChange={handleImageOptionsChange}
+                    disabled={!selectedModel}
+                  />
+                ) : (
+                  <GenerationSettingsPopover
+                    settings={generationSettings}
+                    defaults={getGenerationDefaults(selectedProvider)}
+                    onChange={handleGenerationSettingsChange}
+                    disabled={!selectedModel}
+                  />
+                )}
+                <FallbackChainPopover
+                  chain={fallbackChain}
+                  globalChain={getFallbackChain()}
+                  onChange={handleFallbackChainChange}
+                  disabled={!selectedModel}
+                />
+                {selectedProvider === 'openrouter' && (
+                  <OpenRouterRoutingPopover
+                    routing={openRouterRouting}
+                    globalRouting={getOpenRouterRouting()}
+                    onChange={handleOpenRouterRoutingChange}
+                    disabled={!selectedModel}
+                  />
+                )}
+              </>
+            }
             supportsImages={models.find(m => m.id === selectedModel)?.supportsImages}
             supportsDocuments={models.find(m => m.id === selectedModel)?.supportsDocuments}
+            supportsTools={models.find(m => m.id === selectedModel)?.supportsFunctionCalling}
+            toolsEnabled={toolsEnabled}
+            onToggleTools={() => {
+              setToolsEnabled(!toolsEnabled);
+              setPreferences({ toolsEnabled: !toolsEnabled });
+            }}
+            supportsWebSearch={models.find(m => m.id === selectedModel)?.supportsWebSearch}
+            webSearchEnabled={webSearch}
+            onToggleWebSearch={() => {
+              setWebSearch(!webSearch);
+              setPreferences({ webSearch: !webSearch });
+            }}
+            supportsReasoning={models.find(m => m.id === selectedModel)?.supportsReasoning}
+            reasoningEffort={reasoningEffort}
+            onReasoningEffortChange={(effort) => {
+              setReasoningEffort(effort);
+              setPreferences({ reasoningEffort: effort });
+            }}
             providerSelect={
               <Select
                 value={selectedProvider}
                 onValueChange={(v) => {
                   const providerId = v as ProviderId;
-                  if (!apiKeys[providerId]) {
+                  if (!isProviderReady(providerId, apiKeys)) {
                     setApiKeyNeededProvider(providerId);
                     setTempApiKey('');
                   } else {
@@ -785,7 +1516,7 @@ export default function ChatPage() {
                   <SelectValue placeholder="Provider" />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.values(PROVIDERS).map(provider => (
+                  {providers.map(provider => (
                     <SelectItem
                       key={provider.id}
                       value={provider.id}
@@ -800,6 +1531,8 @@ export default function ChatPage() {
               <Select
                 value={selectedModel}
                 onValueChange={setSelectedModel}
+                open={modelPickerOpen}
+                onOpenChange={setModelPickerOpen}
                 disabled={loadingModels || models.length === 0}
               >
                 <SelectTrigger className="border-none bg-transparent shadow-none hover:bg-muted focus:ring-0 w-auto gap-1 text-xs font-bold h-8 rounded-lg px-2">
@@ -815,8 +1548,8 @@ export default function ChatPage() {
                   hideScroll
                   className="max-h-[300px] min-w-[200px] mt-1 [&_[data-slot=select-viewport]]:p-0"
                 >
-                  <div className="px-2 py-2 border-b sticky top-0 bg-popover z-[20] shadow-sm rounded-t-md">
-                    <div className="relative">
+                  <div className="px-2 py-2 border-b sticky top-0 bg-popover z-[20] shadow-sm rounded-t-md flex items-center gap-1">
+                    <div className="relative flex-1">
                       <Search className="absolute left-2 top-2.5 h-3.5 w-3.5 text-muted-foreground" />
                       <Input
                         placeholder="Search models..."
@@ -826,62 +1559,84 @@ export default function ChatPage() {
                         onKeyDown={(e) => e.stopPropagation()}
                       />
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 flex-shrink-0"
+                      onClick={() => loadModels(selectedProvider, true)}
+                      disabled={refreshingModels}
+                      title="Refresh model list"
+                    >
+                      <RefreshCw className={cn("h-3.5 w-3.5", refreshingModels && "animate-spin")} />
+                    </Button>
                   </div>
                   {models.filter(m =>
                     m.name.toLowerCase().includes(modelSearch.toLowerCase()) ||
                     m.id.toLowerCase().includes(modelSearch.toLowerCase())
-                  ).map(model => (
-                    <Tooltip key={model.id} delayDuration={300}>
-                      <TooltipTrigger asChild>
-                        <SelectItem value={model.id} className="cursor-help">
-                          {model.name}
-                        </SelectItem>
-                      </TooltipTrigger>
-                      <TooltipContent side="right" className="p-3 w-72 bg-card/95 backdrop-blur border text-card-foreground shadow-2xl">
-                        <div className="space-y-2">
-                          <div className="flex items-center gap-2">
-                            <Info className="h-4 w-4 text-primary" />
-                            <span className="font-bold text-sm">{model.name}</span>
-                          </div>
-                          {model.description && (
-                            <p className="text-[10px] text-muted-foreground leading-snug">
-                              {model.description}
-                            </p>
-                          )}
-                          <div className="grid grid-cols-2 gap-2 text-[10px]">
-                            <div className="flex items-center gap-1.5 p-1.5 rounded-md bg-muted/50 border border-border/50">
-                              <Cpu className="h-3 w-3 text-blue-500" />
-                              <span className="font-medium">{(model.contextLength || 0).toLocaleString()} tokens</span>
+                  ).map(model => {
+                    const price = resolveModelPrice(selectedProvider, model.id, model.pricing);
+                    return (
+                      <Tooltip key={model.id} delayDuration={300}>
+                        <TooltipTrigger asChild>
+                          <SelectItem value={model.id} className="cursor-help">
+                            {model.name}
+                            {isPriceGuessed(price) && (
+                              <span className="text-[9px] font-semibold uppercase tracking-wider text-amber-600/80">est.</span>
+                            )}
+                          </SelectItem>
+                        </TooltipTrigger>
+                        <TooltipContent side="right" className="p-3 w-72 bg-card/95 backdrop-blur border text-card-foreground shadow-2xl">
+                          <div className="space-y-2">
+                            <div className="flex items-center gap-2">
+                              <Info className="h-4 w-4 text-primary" />
+                              <span className="font-bold text-sm">{model.name}</span>
                             </div>
-                            {model.supportsCode && (
-                              <div className="flex items-center gap-1.5 p-1.5 rounded-md bg-muted/50 border border-border/50">
-                                <Code2 className="h-3 w-3 text-emerald-500" />
-                                <span className="font-medium">Code</span>
-                              </div>
+                            {model.description && (
+                              <p className="text-[10px] text-muted-foreground leading-snug">
+                                {model.description}
+                              </p>
                             )}
-                            {model.supportsImages && (
+                            <div className="grid grid-cols-2 gap-2 text-[10px]">
                               <div className="flex items-center gap-1.5 p-1.5 rounded-md bg-muted/50 border border-border/50">
-                                <ImageIcon className="h-3 w-3 text-purple-500" />
-                                <span className="font-medium">Vision</span>
+                                <Cpu className="h-3 w-3 text-blue-500" />
+                                <span className="font-medium">{(model.contextLength || 0).toLocaleString()} tokens</span>
                               </div>
-                            )}
-                            {model.supportsDocuments && (
-                              <div className="flex items-center gap-1.5 p-1.5 rounded-md bg-muted/50 border border-border/50">
-                                <FileText className="h-3 w-3 text-amber-500" />
-                                <span className="font-medium">Docs</span>
+                              {model.supportsCode && (
+                                <div className="flex items-center gap-1.5 p-1.5 rounded-md bg-muted/50 border border-border/50">
+                                  <Code2 className="h-3 w-3 text-emerald-500" />
+                                  <span className="font-medium">Code</span>
+                                </div>
+                              )}
+                              {model.supportsImages && (
+                                <div className="flex items-center gap-1.5 p-1.5 rounded-md bg-muted/50 border border-border/50">
+                                  <ImageIcon className="h-3 w-3 text-purple-500" />
+                                  <span className="font-medium">Vision</span>
+                                </div>
+                              )}
+                              {model.supportsDocuments && (
+                                <div className="flex items-center gap-1.5 p-1.5 rounded-md bg-muted/50 border border-border/50">
+                                  <FileText className="h-3 w-3 text-amber-500" />
+                                  <span className="font-medium">Docs</span>
+                                </div>
+                              )}
+                            </div>
+                            <div className="text-[9px] text-muted-foreground border-t pt-2 space-y-1">
+                              <div className="flex justify-between">
+                                <span>${price.price.input.toFixed(2)}/1M input</span>
+                                <span>${price.price.output.toFixed(2)}/1M output</span>
                               </div>
-                            )}
-                          </div>
-                          {model.pricing && (
-                            <div className="text-[9px] text-muted-foreground border-t pt-2 flex justify-between">
-                              <span>${(model.pricing.input).toFixed(2)}/1M input</span>
-                              <span>${(model.pricing.output).toFixed(2)}/1M output</span>
+                              {price.price.cachedInput !== undefined && (
+                                <div>${price.price.cachedInput.toFixed(3)}/1M cached input</div>
+                              )}
+                              {isPriceGuessed(price) && (
+                                <div className="text-amber-600">Unknown model price; costs use a provider default. Set an override in Settings.</div>
+                              )}
                             </div>
-                          )}
-                        </div>
-                      </TooltipContent>
-                    </Tooltip>
-                  ))}
+                          </div>
+                        </TooltipContent>
+                      </Tooltip>
+                    );
+                  })}
                   <div className="h-1" />
                 </SelectContent>
               </Select>
@@ -894,7 +1649,11 @@ export default function ChatPage() {
         open={settingsOpen}
         onOpenChange={(open) => {
           setSettingsOpen(open);
-          if (!open) setSettingsVersion(v => v + 1);
+          if (!open) {
+            setApiKeys(getApiKeys());
+            setProviders(getProviders());
+            setSettingsVersion(v => v + 1);
+          }
         }}
       />
 
@@ -917,6 +1676,25 @@ export default function ChatPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      <Dialog open={trimContextStart !== null} onOpenChange={(open) => !open && setTrimContextStart(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Trim Older Messages</DialogTitle>
+            <DialogDescription>
+              This permanently deletes the {trimContextStart} oldest messages of this chat so the rest fits
+              the model&apos;s context window. It can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTrimContextStart(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmTrimContext}>
+              Delete {trimContextStart} messages
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       <Dialog open={!!apiKeyNeededProvider} onOpenChange={(open) => !open && setApiKeyNeededProvider(null)}>
         <DialogContent className="sm:max-w-md rounded-3xl border-border/40 shadow-2xl">
           <DialogHeader className="space-y-3">
@@ -924,7 +1702,7 @@ export default function ChatPage() {
               <ExternalLink className="h-6 w-6 text-primary" />
             </div>
             <DialogTitle className="text-xl font-bold tracking-tight">
-              Configure {apiKeyNeededProvider ? PROVIDERS[apiKeyNeededProvider].name : ''}
+              Configure {apiKeyNeededProvider ? getProvider(apiKeyNeededProvider)?.name : ''}
             </DialogTitle>
             <DialogDescription className="text-sm">
               You haven't set an API key for this provider yet. Please enter it below to start chatting.
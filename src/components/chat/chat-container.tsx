@@ -1,8 +1,9 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
-import { Message } from '@/types';
+import { Comparison, Message } from '@/types';
 import { ChatMessage } from './chat-message';
+import { ComparisonView } from './comparison-view';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { MessageSquare } from 'lucide-react';
 
@@ -10,16 +11,20 @@ interface ChatContainerProps {
     messages: Message[];
     streamingMessageId?: string;
     onRetry?: (messageId: string) => void;
+    onContinue?: (messageId: string) => void; // Offered on the last message only
+    comparisons?: Comparison[];
+    onPickWinner?: (comparisonId: string, responseId: string) => void;
+    canPickWinner?: boolean;
 }
 
-export function ChatContainer({ messages, streamingMessageId, onRetry }: ChatContainerProps) {
+export function ChatContainer({ messages, streamingMessageId, onRetry, onContinue, comparisons = [], onPickWinner, canPickWinner }: ChatContainerProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
     const bottomRef = useRef<HTMLDivElement>(null);
 
     // Auto-scroll to bottom when new messages arrive
     useEffect(() => {
         bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages, streamingMessageId]);
+    }, [messages, streamingMessageId, comparisons]);
 
     if (messages.length === 0) {
         return <div className="flex-1" />;
@@ -28,14 +33,26 @@ export function ChatContainer({ messages, streamingMessageId, onRetry }: ChatCon
     return (
         <ScrollArea className="flex-1 h-full w-full min-h-0" ref={scrollRef}>
             <div className="max-w-4xl mx-auto p-6 space-y-6">
-                {messages.map((message) => (
-                    <ChatMessage
-                        key={message.id}
-                        message={message}
-                        isStreaming={message.id === streamingMessageId}
-                        onRetry={onRetry}
-                    />
-                ))}
+                {messages.map((message, index) => {
+                    const comparison = comparisons.find(c => c.userMessageId === message.id);
+                    return (
+                        <div key={message.id}>
+                            <ChatMessage
+                                message={message}
+                                isStreaming={message.id === streamingMessageId}
+                                onRetry={onRetry}
+                                onContinue={index === messages.length - 1 ? onContinue : undefined}
+                            />
+                            {comparison && (
+                                <ComparisonView
+                                    comparison={comparison}
+                                    onPickWinner={onPickWinner}
+                                    canPick={canPickWinner}
+                                />
+                            )}
+                        </div>
+                    );
+                })}
                 <div className="h-20" /> {/* Spacer for floating input */}
                 <div ref={bottomRef} />
             </div>
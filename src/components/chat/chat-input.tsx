@@ -3,6 +3,13 @@
 import { useState, useRef, useEffect } from 'react';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
 import {
     CornerDownLeft,
     Square,
@@ -11,11 +18,16 @@ import {
     Paperclip,
     X,
     Image as ImageIcon,
-    FileText
+    FileText,
+    Wrench,
+    Globe,
+    Brain,
+    AlertTriangle
 } from 'lucide-react';
-import { Attachment } from '@/types';
+import { Attachment, Model, ProviderId, ReasoningEffort } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { cn } from '@/lib/utils';
+import { TEXT_FILE_EXTENSIONS, getDroppedAttachments } from '@/lib/attachments';
 
 interface ChatInputProps {
     onSend: (message: string, attachments?: Attachment[]) => void;
@@ -24,10 +36,31 @@ interface ChatInputProps {
     disabled?: boolean;
     providerSelect?: React.ReactNode;
     modelSelect?: React.ReactNode;
+    modelSettings?: React.ReactNode; // Shown right after the model picker
+    compareBar?: React.ReactNode; // Compare mode: the models the message goes to
+    providerId?: ProviderId;
+    model?: Model; // Used to warn about attachments the model can't receive
     supportsImages?: boolean;
     supportsDocuments?: boolean;
+    supportsTools?: boolean;
+    toolsEnabled?: boolean;
+    onToggleTools?: () => void;
+    supportsWebSearch?: boolean;
+    webSearchEnabled?: boolean;
+    onToggleWebSearch?: () => void;
+    supportsReasoning?: boolean;
+    reasoningEffort?: ReasoningEffort;
+    onReasoningEffortChange?: (effort: ReasoningEffort) => void;
 }
 
+const REASONING_OPTIONS: { value: ReasoningEffort; label: string }[] = [
+    { value: 'auto', label: 'Auto' },
+    { value: 'off', label: 'Off' },
+    { value: 'low', label: 'Low' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'high', label: 'High' },
+];
+
 export function ChatInput({
     onSend,
     onStop,
@@ -35,8 +68,21 @@ export function ChatInput({
     disabled,
     providerSelect,
     modelSelect,
+    modelSettings,
+    compareBar,
+    providerId,
+    model,
     supportsImages,
     supportsDocuments,
+    supportsTools,
+    toolsEnabled,
+    onToggleTools,
+    supportsWebSearch,
+    webSearchEnabled,
+    onToggleWebSearch,
+    supportsReasoning,
+    reasoningEffort = 'auto',
+    onReasoningEffortChange,
 }: ChatInputProps) {
     const [message, setMessage] = useState('');
     const [attachments, setAttachments] = useState<Attachment[]>([]);
@@ -44,6 +90,9 @@ export function ChatInput({
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const droppedAttachments = providerId ? getDroppedAttachments(attachments, providerId, model) : [];
+    const droppedIds = new Set(droppedAttachments.map(a => a.id));
+
     // Auto-resize textarea
     useEffect(() => {
         const textarea = textareaRef.current;
@@ -133,7 +182,14 @@ export function ChatInput({
                 {attachments.length > 0 && (
                     <div className="flex flex-wrap gap-2 mb-3">
                         {attachments.map((file) => (
-                            <div key={file.id} className="relative group rounded-xl overflow-hidden border bg-background/50 h-16 w-16 flex items-center justify-center">
+                            <div
+                                key={file.id}
+                                className={cn(
+                                    "relative group rounded-xl overflow-hidden border bg-background/50 h-16 w-16 flex items-center justify-center",
+                                    droppedIds.has(file.id) && "border-amber-500/60 opacity-60"
+                                )}
+                                title={droppedIds.has(file.id) ? `${file.name} will not be sent to this model` : file.name}
+                            >
                                 {file.type === 'image' ? (
                                     <img src={file.data} alt={file.name} className="h-full w-full object-cover" />
                                 ) : (
@@ -152,40 +208,103 @@ export function ChatInput({
                         ))}
                     </div>
                 )}
+                {droppedAttachments.length > 0 && (
+                    <div className="flex items-center gap-1.5 mb-3 px-1 text-xs text-amber-600">
+                        <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                        <span>
+                            {model?.name ?? 'This model'} can&apos;t read {droppedAttachments.map(a => a.name).join(', ')}; {droppedAttachments.length === 1 ? 'it' : 'they'} will be left out.
+                        </span>
+                    </div>
+                )}
+
+                {compareBar}
 
                 {/* Unified Selectors Bar */}
                 <div className="flex items-center gap-1 mb-1 select-none">
                     {providerSelect}
                     <div className="h-4 w-px bg-border/50 mx-2" />
                     {modelSelect}
+                    {modelSettings}
 
                     <div className="ml-auto flex items-center gap-1">
+                        {supportsReasoning && onReasoningEffortChange && (
+                            <Select
+                                value={reasoningEffort}
+                                onValueChange={(v) => onReasoningEffortChange(v as ReasoningEffort)}
+                                disabled={disabled}
+                            >
+                                <SelectTrigger
+                                    className={cn(
+                                        "border-none bg-transparent shadow-none hover:bg-muted focus:ring-0 w-auto gap-1 text-xs font-semibold h-8 rounded-full px-2",
+                                        reasoningEffort === 'off' ? "text-muted-foreground/50" : "text-primary"
+                                    )}
+                                    title="Thinking effort"
+                                >
+                                    <Brain className="h-4 w-4" />
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent position="popper" align="end">
+                                    {REASONING_OPTIONS.map(option => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+                        {supportsTools && onToggleTools && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className={cn(
+                                    "h-8 w-8 rounded-full hover:bg-muted",
+                                    toolsEnabled ? "text-primary" : "text-muted-foreground/50"
+                                )}
+                                onClick={onToggleTools}
+                                disabled={disabled}
+                                title={toolsEnabled ? "Tools enabled" : "Tools disabled"}
+                            >
+                                <Wrench className="h-4 w-4" />
+                            </Button>
+                        )}
+                        {supportsWebSearch && onToggleWebSearch && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className={cn(
+                                    "h-8 w-8 rounded-full hover:bg-muted",
+                                    webSearchEnabled ? "text-primary" : "text-muted-foreground/50"
+                                )}
+                                onClick={onToggleWebSearch}
+                                disabled={disabled}
+                                title={webSearchEnabled ? "Web search on" : "Web search off"}
+                            >
+                                <Globe className="h-4 w-4" />
+                            </Button>
+                        )}
                         <input
                             type="file"
                             ref={fileInputRef}
                             onChange={handleFileSelect}
                             multiple
                             className="hidden"
-                            accept={cn(
+                            accept={[
                                 supportsImages && "image/*",
-                                (supportsDocuments || supportsImages) && "application/pdf,text/*"
-                            ) || ""}
+                                (supportsDocuments || supportsImages) && "application/pdf",
+                                "text/*",
+                                ...TEXT_FILE_EXTENSIONS.map(ext => `.${ext}`),
+                            ].filter(Boolean).join(",")}
                         />
-                        {(supportsImages || supportsDocuments) && (
-                            <Button
-                                variant="ghost"
-                                size="icon"
-                                className="h-8 w-8 rounded-full hover:bg-muted"
-                                onClick={() => fileInputRef.current?.click()}
-                                disabled={disabled || isUploading}
-                                title={cn(
-                                    supportsImages && "Upload images",
-                                    supportsDocuments && "Upload documents"
-                                )}
-                            >
-                                {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
-                            </Button>
-                        )}
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 rounded-full hover:bg-muted"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={disabled || isUploading}
+                            title="Attach files"
+                        >
+                            {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+                        </Button>
                     </div>
                 </div>
 
@@ -1,20 +1,177 @@
 'use client';
 
-import { Message } from '@/types';
+import { useState } from 'react';
+import { Attachment, Citation, Message } from '@/types';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { cn } from '@/lib/utils';
-import { User, Bot, FileText } from 'lucide-react';
+import { User, Bot, FileText, Wrench, ChevronRight, AlertTriangle, Brain, Route, Scissors, ArrowRight } from 'lucide-react';
 
 interface ChatMessageProps {
     message: Message;
     isStreaming?: boolean;
     onRetry?: (messageId: string) => void;
+    onContinue?: (messageId: string) => void; // Resume a reply cut off by the output token limit
 }
 
-export function ChatMessage({ message, isStreaming, onRetry }: ChatMessageProps) {
+function formatToolPayload(payload: string): string {
+    try {
+        return JSON.stringify(JSON.parse(payload), null, 2);
+    } catch {
+        return payload;
+    }
+}
+
+const CITATION_HREF = '#citation-';
+
+// Turn [n] markers into links the markdown renderer styles as citations; code is left alone
+function linkCitationMarkers(content: string, citations: Citation[]): string {
+    return content
+        .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+        .map((part, index) => index % 2 === 1 ? part : part.replace(/\[(\d+)\](?!\()/g, (marker, n) =>
+            Number(n) >= 1 && Number(n) <= citations.length ? `[${n}](${CITATION_HREF}${n})` : marker
+        ))
+        .join('');
+}
+
+function citationLabel(citation: Citation): string {
+    if (citation.title) return citation.title;
+    try {
+        return new URL(citation.url).hostname;
+    } catch {
+        return citation.url;
+    }
+}
+
+function SourcesList({ citations }: { citations: Citation[] }) {
+    return (
+        <div className="mt-3 pt-2 border-t border-border/40 space-y-1 text-xs">
+            <span className="font-semibold text-muted-foreground">Sources</span>
+            <ol className="space-y-0.5">
+                {citations.map((citation, index) => (
+                    <li key={citation.url} className="flex gap-1.5 min-w-0">
+                        <span className="text-muted-foreground/60 shrink-0">[{index + 1}]</span>
+                        <a
+                            href={citation.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary truncate transition-opacity hover:opacity-80"
+                            title={citation.url}
+                        >
+                            {citationLabel(citation)}
+                        </a>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
+
+// Collapsible step showing a tool call or its result
+function ToolStep({ title, body, isError }: { title: string; body: string; isError?: boolean }) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div className={cn(
+            'rounded-xl border text-xs bg-muted/20',
+            isError ? 'border-destructive/30' : 'border-border/40'
+        )}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-muted-foreground hover:text-foreground transition-colors"
+            >
+                <ChevronRight className={cn('h-3 w-3 transition-transform', expanded && 'rotate-90')} />
+                {isError ? (
+                    <AlertTriangle className="h-3 w-3 text-destructive" />
+                ) : (
+                    <Wrench className="h-3 w-3" />
+                )}
+                <span className="font-medium truncate">{title}</span>
+            </button>
+            {expanded && (
+                <pre className="px-3 pb-3 overflow-x-auto whitespace-pre-wrap break-all font-mono text-[11px] text-muted-foreground">
+                    {formatToolPayload(body)}
+                </pre>
+            )}
+        </div>
+    );
+}
+
+// Text pulled out of a PDF for models without native PDF input
+function ExtractedTextPreview({ attachment }: { attachment: Attachment }) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div className="border-t text-left">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-semibold text-muted-foreground hover:text-foreground transition-colors"
+            >
+                <ChevronRight className={cn('h-3 w-3 transition-transform', expanded && 'rotate-90')} />
+                <span>Extracted text · {attachment.pageCount} {attachment.pageCount === 1 ? 'page' : 'pages'}</span>
+            </button>
+            {expanded && (
+                <div className="px-3 pb-3 space-y-2 max-w-[480px]">
+                    {attachment.pageImages && attachment.pageImages.length > 0 && (
+                        <div className="flex gap-1.5 overflow-x-auto">
+                            {attachment.pageImages.map((src, index) => (
+                                <img key={index} src={src} alt={`Page ${index + 1}`} className="h-24 w-auto rounded border" />
+                            ))}
+                        </div>
+                    )}
+                    <pre className="max-h-60 overflow-y-auto whitespace-pre-wrap break-words font-mono text-[11px] font-normal text-muted-foreground">
+                        {attachment.extractedText || '(No text found)'}
+                    </pre>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Collapsible thinking section; stays open while the model is still thinking
+function ReasoningBlock({ text, tokenCount, isThinking }: { text: string; tokenCount?: number; isThinking?: boolean }) {
+    const [expanded, setExpanded] = useState<boolean | null>(null);
+    const isOpen = expanded ?? !!isThinking;
+
+    return (
+        <div className="rounded-xl border border-border/40 text-xs bg-muted/20 mb-2">
+            <button
+                onClick={() => setExpanded(!isOpen)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-muted-foreground hover:text-foreground transition-colors"
+            >
+                <ChevronRight className={cn('h-3 w-3 transition-transform', isOpen && 'rotate-90')} />
+                <Brain className={cn('h-3 w-3', isThinking && 'animate-pulse text-primary')} />
+                <span className="font-medium">{isThinking ? 'Thinking...' : 'Thinking'}</span>
+                {!isThinking && tokenCount && (
+                    <span className="text-muted-foreground/60">{tokenCount} tokens</span>
+                )}
+            </button>
+            {isOpen && (
+                <div className="px-3 pb-3 whitespace-pre-wrap break-words text-muted-foreground max-h-[320px] overflow-y-auto">
+                    {text}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export function ChatMessage({ message, isStreaming, onRetry, onContinue }: ChatMessageProps) {
     const isUser = message.role === 'user';
 
+    if (message.role === 'tool') {
+        return (
+            <div className="flex w-full mb-4 justify-start">
+                <div className="max-w-[80%] w-full">
+                    <ToolStep
+                        title={`${message.toolName || 'Tool'} ${message.toolError ? 'failed' : 'returned'}`}
+                        body={message.content}
+                        isError={message.toolError}
+                    />
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div
             className={cn(
@@ -35,7 +192,10 @@ export function ChatMessage({ message, isStreaming, onRetry }: ChatMessageProps)
                         {message.attachments.map(att => (
                             <div key={att.id} className="relative rounded-xl overflow-hidden border bg-background/50 shadow-sm transition-all hover:border-border/80">
                                 {att.type === 'image' ? (
-                                    <img src={att.data} alt={att.name} className="max-h-[240px] w-auto object-contain cursor-pointer transition-opacity hover:opacity-90" />
+                                    // Generated images are shown larger, and a click downloads them
+                                    <a href={isUser ? undefined : att.data} download={isUser ? undefined : att.name}>
+                                        <img src={att.data} alt={att.name} className={cn("w-auto object-contain cursor-pointer transition-opacity hover:opacity-90", isUser ? "max-h-[240px]" : "max-h-[512px]")} />
+                                    </a>
                                 ) : (
                                     <div className="flex items-center gap-2 p-2 px-3 bg-muted/30">
                                         <div className="h-8 w-8 rounded-lg bg-background flex items-center justify-center border">
@@ -47,10 +207,18 @@ export function ChatMessage({ message, isStreaming, onRetry }: ChatMessageProps)
                                         </div>
                                     </div>
                                 )}
+                                {att.extractedText !== undefined && <ExtractedTextPreview attachment={att} />}
                             </div>
                         ))}
                     </div>
                 )}
+                {message.reasoning && (
+                    <ReasoningBlock
+                        text={message.reasoning}
+                        tokenCount={message.reasoningTokenCount}
+                        isThinking={isStreaming && !message.content}
+                    />
+                )}
                 <div className="prose prose-sm dark:prose-invert max-w-none">
                     <ReactMarkdown
                         remarkPlugins={[remarkGfm]}
@@ -73,17 +241,34 @@ export function ChatMessage({ message, isStreaming, onRetry }: ChatMessageProps)
                                     </code>
                                 );
                             },
-                            // Style links
-                            a: ({ href, children }) => (
-                                <a
-                                    href={href}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="text-primary underline transition-opacity hover:opacity-80"
-                                >
-                                    {children}
-                                </a>
-                            ),
+                            // Style links; citation markers become superscript links to their source
+                            a: ({ href, children }) => {
+                                const source = href?.startsWith(CITATION_HREF)
+                                    ? message.citations?.[Number(href.slice(CITATION_HREF.length)) - 1]
+                                    : undefined;
+                                return source ? (
+                                    <sup>
+                                        <a
+                                            href={source.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            title={citationLabel(source)}
+                                            className="px-0.5 text-primary no-underline font-semibold transition-opacity hover:opacity-80"
+                                        >
+                                            [{children}]
+                                        </a>
+                                    </sup>
+                                ) : (
+                                    <a
+                                        href={href}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-primary underline transition-opacity hover:opacity-80"
+                                    >
+                                        {children}
+                                    </a>
+                                );
+                            },
                             // Style tables
                             table: ({ children }) => (
                                 <div className="overflow-x-auto my-6">
@@ -94,25 +279,86 @@ export function ChatMessage({ message, isStreaming, onRetry }: ChatMessageProps)
                             ),
                         }}
                     >
-                        {message.content}
+                        {message.citations ? linkCitationMarkers(message.content, message.citations) : message.content}
                     </ReactMarkdown>
                     {isStreaming && (
                         <span className="inline-block w-2 h-4 animate-pulse ml-1 align-middle bg-primary" />
                     )}
                 </div>
+                {message.citations && message.citations.length > 0 && (
+                    <SourcesList citations={message.citations} />
+                )}
+                {message.toolCalls && message.toolCalls.length > 0 && (
+                    <div className="space-y-2 mt-2">
+                        {message.toolCalls.map(call => (
+                            <ToolStep
+                                key={call.id}
+                                title={`Called ${call.name}`}
+                                body={call.arguments}
+                            />
+                        ))}
+                    </div>
+                )}
                 {!isUser && !isStreaming && message.timing && (
                     <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground/60 select-none">
                         <span>{message.model || 'Unknown Model'}</span>
+                        {message.upstreamProvider && (
+                            <span title="Upstream provider that served this reply through OpenRouter">
+                                via {message.upstreamProvider}
+                            </span>
+                        )}
+                        {message.fallbackAttempts && message.fallbackAttempts.length > 0 && (
+                            <span
+                                className="flex items-center gap-1 text-amber-600/80 cursor-help"
+                                title={message.fallbackAttempts.map(a => `${a.modelId}: ${a.reason}`).join('\n')}
+                            >
+                                <Route className="h-3 w-3" />
+                                fallback after {message.fallbackAttempts.length} {message.fallbackAttempts.length === 1 ? 'model' : 'models'}
+                            </span>
+                        )}
+                        {message.finishReason === 'length' && (
+                            <span
+                                className="flex items-center gap-1 text-amber-600/80 cursor-help"
+                                title="The reply hit the output token limit and was cut off"
+                            >
+                                <Scissors className="h-3 w-3" />
+                                truncated
+                            </span>
+                        )}
                         <span>•</span>
                         <span>{message.timing.toFixed(1)}s</span>
-                        {message.tokenCount && (
+                        {message.usage ? (
                             <>
                                 <span>•</span>
-                                <span>{message.tokenCount} tokens</span>
+                                <span>{message.usage.inputTokens} in / {message.usage.outputTokens} out</span>
+                                {message.usage.cachedInputTokens ? (
+                                    <>
+                                        <span>•</span>
+                                        <span title="Input tokens served from the provider's prompt cache">
+                                            {message.usage.cachedInputTokens} cached
+                                        </span>
+                                    </>
+                                ) : null}
+                            </>
+                        ) : message.tokenCount && (
+                            <>
+                                <span>•</span>
+                                <span>~{message.tokenCount} tokens</span>
                             </>
                         )}
                     </div>
                 )}
+                {!isUser && !isStreaming && message.finishReason === 'length' && onContinue && (
+                    <div className="flex mt-2">
+                        <button
+                            onClick={() => onContinue(message.id)}
+                            className="text-[10px] font-semibold text-muted-foreground/50 hover:text-primary transition-colors flex items-center gap-1 uppercase tracking-wider px-2 py-1 rounded-md hover:bg-primary/5"
+                        >
+                            <ArrowRight className="h-3 w-3" />
+                            Continue
+                        </button>
+                    </div>
+                )}
                 {isUser && onRetry && (
                     <div className="flex justify-end mt-2">
                         <button
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { ModelRef, Model, Provider, ProviderId } from '@/types';
+import { getCachedModels } from '@/lib/storage';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Columns3, Loader2, Plus, X } from 'lucide-react';
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+interface CompareBarProps {
+    targets: ModelRef[];
+    onChange: (targets: ModelRef[]) => void;
+    providers: Provider[]; // Providers that are ready to use
+    loadModels: (providerId: ProviderId) => Promise<Model[]>;
+    disabled?: boolean;
+}
+
+function isSameTarget(a: ModelRef, b: ModelRef): boolean {
+    return a.providerId === b.providerId && a.modelId === b.modelId;
+}
+
+// Picks the provider/model pairs a compare-mode message is sent to
+export function CompareBar({ targets, onChange, providers, loadModels, disabled }: CompareBarProps) {
+    const [providerId, setProviderId] = useState<ProviderId | undefined>(providers[0]?.id);
+    const [modelLists, setModelLists] = useState<Partial<Record<ProviderId, Model[]>>>({});
+    const [loadingProvider, setLoadingProvider] = useState<ProviderId | null>(null);
+
+    const models = providerId ? modelLists[providerId] : undefined;
+    const isFull = targets.length >= MAX_COMPARE_TARGETS;
+
+    const ensureModels = async (id: ProviderId) => {
+        if (modelLists[id]) return;
+        setLoadingProvider(id);
+        try {
+            const list = await loadModels(id);
+            setModelLists(prev => ({ ...prev, [id]: list }));
+        } catch (err) {
+            console.error('Failed to fetch models:', err);
+        } finally {
+            setLoadingProvider(current => current === id ? null : current);
+        }
+    };
+
+    const handleProviderChange = (id: ProviderId) => {
+        setProviderId(id);
+        ensureModels(id);
+    };
+
+    const handleAdd = (modelId: string) => {
+        if (!providerId) return;
+        const target = { providerId, modelId };
+        if (isFull || targets.some(t => isSameTarget(t, target))) return;
+        onChange([...targets, target]);
+    };
+
+    const modelName = (target: ModelRef) =>
+        getCachedModels(target.providerId)?.models.find(m => m.id === target.modelId)?.name ?? target.modelId;
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5 mb-3 select-none">
+            <Columns3 className="h-4 w-4 text-primary mx-1" />
+            {targets.map(target => (
+                <div
+                    key={`${target.providerId}:${target.modelId}`}
+                    className="flex items-center gap-1 pl-2.5 pr-1 h-7 rounded-full border bg-background/50 text-xs"
+                >
+                    <span className="text-muted-foreground">{providers.find(p => p.id === target.providerId)?.name ?? target.providerId}</span>
+                    <span className="font-semibold max-w-[160px] truncate">{modelName(target)}</span>
+                    <button
+                        onClick={() => onChange(targets.filter(t => !isSameTarget(t, target)))}
+                        disabled={disabled}
+                        className="h-5 w-5 rounded-full flex items-center justify-center text-muted-foreground hover:bg-destructive hover:text-destructive-foreground transition-colors"
+                        title="Remove from comparison"
+                    >
+                        <X className="h-3 w-3" />
+                    </button>
+                </div>
+            ))}
+            {!isFull && (
+                <div className="flex items-center gap-0.5">
+                    <Select value={providerId} onValueChange={(v) => handleProviderChange(v as ProviderId)} disabled={disabled}>
+                        <SelectTrigger className="border-none bg-transparent shadow-none hover:bg-muted focus:ring-0 w-auto gap-1 text-xs font-semibold h-7 rounded-lg px-2">
+                            <SelectValue placeholder="Provider" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {providers.map(provider => (
+                                <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {/* Value stays empty so picking a model adds it and resets the picker */}
+                    <Select
+                        value=""
+                        onValueChange={handleAdd}
+                        onOpenChange={(open) => open && providerId && ensureModels(providerId)}
+                        disabled={disabled || !providerId}
+                    >
+                        <SelectTrigger className="border-dashed bg-transparent shadow-none hover:bg-muted focus:ring-0 w-auto gap-1 text-xs font-semibold h-7 rounded-full px-2.5">
+                            <Plus className="h-3 w-3" />
+                            <SelectValue placeholder="Add model" />
+                        </SelectTrigger>
+                        <SelectContent position="popper" align="start" className="max-h-[300px]">
+                            {loadingProvider === providerId ? (
+                                <div className="flex justify-center py-3">
+                                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                                </div>
+                            ) : models?.map(model => (
+                                <SelectItem
+                                    key={model.id}
+                                    value={model.id}
+                                    disabled={targets.some(t => t.providerId === providerId && t.modelId === model.id)}
+                                >
+                                    {model.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+            {targets.length < MIN_COMPARE_TARGETS && (
+                <span className="text-[10px] text-muted-foreground/70 px-1">
+                    Add at least {MIN_COMPARE_TARGETS} models to compare
+                </span>
+            )}
+        </div>
+    );
+}
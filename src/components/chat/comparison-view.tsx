@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { Comparison, ComparisonResponse } from '@/types';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { getProvider } from '@/lib/storage';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Check, ChevronRight, Columns3, Loader2, Trophy } from 'lucide-react';
+
+interface ComparisonViewProps {
+    comparison: Comparison;
+    onPickWinner?: (comparisonId: string, responseId: string) => void;
+    canPick?: boolean;
+}
+
+// Column width follows the number of models so up to four fit side by side
+const GRID_COLUMNS: Record<number, string> = {
+    1: 'grid-cols-1',
+    2: 'md:grid-cols-2',
+    3: 'md:grid-cols-3',
+    4: 'md:grid-cols-2 xl:grid-cols-4',
+};
+
+function ResponseColumn({ response, isWinner, onPick }: {
+    response: ComparisonResponse;
+    isWinner: boolean;
+    onPick?: () => void;
+}) {
+    const provider = getProvider(response.providerId);
+
+    return (
+        <div className={cn(
+            'flex flex-col min-w-0 rounded-2xl border bg-card/40',
+            isWinner ? 'border-primary/60 ring-1 ring-primary/30' : 'border-border/50'
+        )}>
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-border/40">
+                <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold truncate">{response.modelId}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">{provider?.name ?? response.providerId}</p>
+                </div>
+                {response.status === 'streaming' && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+                {isWinner && <Trophy className="h-3.5 w-3.5 text-primary" />}
+            </div>
+
+            <div className="flex-1 px-3 py-2 max-h-[420px] overflow-y-auto">
+                {response.status === 'error' ? (
+                    <div className="flex items-start gap-1.5 text-xs text-destructive">
+                        <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+                        <span>{response.error}</span>
+                    </div>
+                ) : (
+                    <div className="prose prose-sm dark:prose-invert max-w-none break-words">
+                        {response.reasoning && !response.content && response.status === 'streaming' && (
+                            <p className="text-xs text-muted-foreground animate-pulse">Thinking...</p>
+                        )}
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{response.content}</ReactMarkdown>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex items-center gap-2 px-3 py-2 border-t border-border/40 text-[10px] text-muted-foreground/70 select-none">
+                {response.timing !== undefined && <span>{response.timing.toFixed(1)}s</span>}
+                {response.usage ? (
+                    <span>{response.usage.inputTokens} in / {response.usage.outputTokens} out</span>
+                ) : response.tokenCount ? (
+                    <span>~{response.tokenCount} tokens</span>
+                ) : null}
+                {response.cost !== undefined && <span>${response.cost.toFixed(4)}</span>}
+                {onPick && response.status === 'done' && response.content && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="ml-auto h-6 rounded-lg px-2 text-[10px] font-bold uppercase tracking-wider gap-1"
+                        onClick={onPick}
+                    >
+                        <Check className="h-3 w-3" />
+                        Use this
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+// Responses to one prompt, side by side. Once a winner is picked the columns
+// collapse, since the winning answer continues the conversation below.
+export function ComparisonView({ comparison, onPickWinner, canPick }: ComparisonViewProps) {
+    const [expanded, setExpanded] = useState(false);
+    const hasWinner = !!comparison.winnerId;
+    const isOpen = !hasWinner || expanded;
+    const winner = comparison.responses.find(r => r.id === comparison.winnerId);
+
+    return (
+        <div className="mb-4 space-y-2">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                disabled={!hasWinner}
+                className="flex items-center gap-2 px-1 text-xs text-muted-foreground enabled:hover:text-foreground transition-colors"
+            >
+                {hasWinner ? (
+                    <ChevronRight className={cn('h-3 w-3 transition-transform', isOpen && 'rotate-90')} />
+                ) : (
+                    <Columns3 className="h-3 w-3" />
+                )}
+                <span className="font-medium">
+                    Compared {comparison.responses.length} models
+                    {winner ? ` · picked ${winner.modelId}` : ''}
+                </span>
+            </button>
+            {isOpen && (
+                <div className={cn('grid grid-cols-1 gap-3', GRID_COLUMNS[comparison.responses.length])}>
+                    {comparison.responses.map(response => (
+                        <ResponseColumn
+                            key={response.id}
+                            response={response}
+                            isWinner={response.id === comparison.winnerId}
+                            onPick={!hasWinner && canPick && onPickWinner
+                                ? () => onPickWinner(comparison.id, response.id)
+                                : undefined}
+                        />
+                    ))}
+                </div>
+            )}
+            {!hasWinner && canPick && comparison.responses.some(r => r.status === 'done' && r.content) && (
+                <p className="px-1 text-[10px] text-muted-foreground/70">
+                    Pick a response to continue the conversation with that model.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { ModelRef, ProviderId, isEmbeddingModel } from '@/types';
+import { getProviders, getProvider, getCachedModels } from '@/lib/storage';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Route, Trash2 } from 'lucide-react';
+
+interface FallbackChainEditorProps {
+    chain: ModelRef[];
+    onChange: (chain: ModelRef[]) => void;
+}
+
+// Ordered list of provider/model pairs with controls to add, reorder and remove
+export function FallbackChainEditor({ chain, onChange }: FallbackChainEditorProps) {
+    const [providerId, setProviderId] = useState<ProviderId>('openai');
+    const [modelId, setModelId] = useState('');
+
+    // Suggest models from the provider's cached list; any id can still be typed
+    const suggestions = getCachedModels(providerId)?.models.filter(m => !isEmbeddingModel(m)) ?? [];
+    const datalistId = `fallback-models-${providerId}`;
+
+    const handleAdd = () => {
+        const id = modelId.trim();
+        if (!id || chain.some(ref => ref.providerId === providerId && ref.modelId === id)) return;
+        onChange([...chain, { providerId, modelId: id }]);
+        setModelId('');
+    };
+
+    const move = (index: number, offset: number) => {
+        const next = [...chain];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-2">
+            {chain.length > 0 && (
+                <div className="space-y-1.5">
+                    {chain.map((ref, index) => (
+                        <div key={`${ref.providerId}:${ref.modelId}`} className="flex items-center gap-1 pl-3 pr-1 py-1.5 rounded-xl bg-muted/40 border border-border/50">
+                            <span className="text-[10px] font-bold text-muted-foreground w-4">{index + 1}</span>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-xs font-semibold truncate">{ref.modelId}</p>
+                                <p className="text-[10px] text-muted-foreground truncate">{getProvider(ref.providerId)?.name ?? ref.providerId}</p>
+                            </div>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => move(index, -1)} disabled={index === 0}>
+                                <ArrowUp className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => move(index, 1)} disabled={index === chain.length - 1}>
+                                <ArrowDown className="h-3 w-3" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                                onClick={() => onChange(chain.filter((_, i) => i !== index))}
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="flex items-center gap-2">
+                <Select value={providerId} onValueChange={(v) => setProviderId(v as ProviderId)}>
+                    <SelectTrigger className="h-8 w-[120px] text-xs bg-background/50 border-muted-foreground/20 rounded-lg">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {getProviders().map(provider => (
+                            <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Input
+                    value={modelId}
+                    onChange={(e) => setModelId(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleAdd();
+                    }}
+                    placeholder="Model ID"
+                    list={datalistId}
+                    className="h-8 flex-1 text-xs bg-background/50 border-muted-foreground/20 rounded-lg"
+                />
+                <datalist id={datalistId}>
+                    {suggestions.map(model => (
+                        <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                </datalist>
+                <Button variant="outline" size="icon" className="h-8 w-8 rounded-lg flex-shrink-0" onClick={handleAdd} disabled={!modelId.trim()}>
+                    <Plus className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+interface FallbackChainPopoverProps {
+    chain?: ModelRef[]; // This conversation's chain; undefined uses the global one
+    globalChain: ModelRef[];
+    onChange: (chain: ModelRef[] | undefined) => void;
+    disabled?: boolean;
+}
+
+export function FallbackChainPopover({ chain, globalChain, onChange, disabled }: FallbackChainPopoverProps) {
+    const effective = chain ?? globalChain;
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn(
+                        "h-8 w-8 rounded-full hover:bg-muted",
+                        effective.length > 0 ? "text-primary" : "text-muted-foreground/50"
+                    )}
+                    disabled={disabled}
+                    title={effective.length > 0 ? `Fallback: ${effective.map(ref => ref.modelId).join(' → ')}` : 'Fallback models'}
+                >
+                    <Route className="h-4 w-4" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-80 rounded-2xl">
+                <div className="flex items-center justify-between mb-3">
+                    <span className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Fallback Models</span>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 rounded-lg text-[10px] font-bold uppercase tracking-wider gap-1 text-muted-foreground"
+                        onClick={() => onChange(undefined)}
+                        disabled={!chain}
+                    >
+                        <RotateCcw className="h-3 w-3" />
+                        Use global
+                    </Button>
+                </div>
+                <FallbackChainEditor chain={effective} onChange={onChange} />
+                <p className="text-[10px] text-muted-foreground/70 mt-3 px-1">
+                    {chain
+                        ? 'Saved with this conversation. '
+                        : 'Using the global chain from Settings; editing it here saves a copy for this conversation. '}
+                    When a request fails before any output, it is sent to the next model in order.
+                </p>
+            </PopoverContent>
+        </Popover>
+    );
+}
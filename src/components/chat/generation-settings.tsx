@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { GenerationSettings } from '@/types';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+
+type NumericField = Exclude<keyof GenerationSettings, 'stopSequences'>;
+
+interface NumericFieldSpec {
+    key: NumericField;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    integer?: boolean;
+}
+
+const NUMERIC_FIELDS: NumericFieldSpec[] = [
+    { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+    { key: 'maxTokens', label: 'Max Output Tokens', min: 1, max: 200000, step: 256, integer: true },
+    { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+    { key: 'topK', label: 'Top K', min: 1, max: 500, step: 1, integer: true },
+    { key: 'frequencyPenalty', label: 'Frequency Penalty', min: -2, max: 2, step: 0.1 },
+    { key: 'presencePenalty', label: 'Presence Penalty', min: -2, max: 2, step: 0.1 },
+    { key: 'seed', label: 'Seed', min: 0, max: Number.MAX_SAFE_INTEGER, step: 1, integer: true },
+];
+
+type Drafts = Record<NumericField | 'stopSequences', string>;
+
+function toDrafts(settings: GenerationSettings): Drafts {
+    const drafts = { stopSequences: settings.stopSequences?.join('\n') ?? '' } as Drafts;
+    NUMERIC_FIELDS.forEach(field => {
+        drafts[field.key] = settings[field.key]?.toString() ?? '';
+    });
+    return drafts;
+}
+
+interface GenerationSettingsFieldsProps {
+    settings: GenerationSettings;
+    onChange: (settings: GenerationSettings) => void;
+    placeholders?: GenerationSettings; // Values used when a field is left empty
+}
+
+// Empty fields are left unset so the next level of defaults applies.
+// Remount (via `key`) when `settings` is replaced from outside.
+export function GenerationSettingsFields({ settings, onChange, placeholders = {} }: GenerationSettingsFieldsProps) {
+    const [drafts, setDrafts] = useState(() => toDrafts(settings));
+
+    const commitNumber = (field: NumericFieldSpec) => {
+        const next = { ...settings };
+        const parsed = parseFloat(drafts[field.key]);
+        if (isNaN(parsed)) {
+            delete next[field.key];
+        } else {
+            const clamped = Math.min(field.max, Math.max(field.min, parsed));
+            next[field.key] = field.integer ? Math.round(clamped) : clamped;
+        }
+        setDrafts(toDrafts(next));
+        onChange(next);
+    };
+
+    const commitStopSequences = () => {
+        const next = { ...settings };
+        const sequences = drafts.stopSequences.split('\n').filter(s => s.length > 0);
+        if (sequences.length > 0) {
+            next.stopSequences = sequences;
+        } else {
+            delete next.stopSequences;
+        }
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+                {NUMERIC_FIELDS.map(field => (
+                    <div key={field.key} className="space-y-1">
+                        <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">{field.label}</label>
+                        <Input
+                            type="number"
+                            min={field.min}
+                            max={field.max}
+                            step={field.step}
+                            value={drafts[field.key]}
+                            placeholder={placeholders[field.key]?.toString() ?? 'Default'}
+                            onChange={(e) => setDrafts({ ...drafts, [field.key]: e.target.value })}
+                            onBlur={() => commitNumber(field)}
+                            className="h-8 text-xs bg-background/50 border-muted-foreground/20 rounded-lg"
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="space-y-1">
+                <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">Stop Sequences (one per line)</label>
+                <Textarea
+                    value={drafts.stopSequences}
+                    placeholder={placeholders.stopSequences?.join('\n') ?? 'None'}
+                    onChange={(e) => setDrafts({ ...drafts, stopSequences: e.target.value })}
+                    onBlur={commitStopSequences}
+                    className="min-h-[52px] text-xs font-mono bg-background/50 border-muted-foreground/20 rounded-lg"
+                />
+            </div>
+        </div>
+    );
+}
+
+interface GenerationSettingsPopoverProps {
+    settings?: GenerationSettings;
+    defaults: GenerationSettings; // Provider defaults from settings, shown as placeholders
+    onChange: (settings: GenerationSettings) => void;
+    disabled?: boolean;
+}
+
+export function GenerationSettingsPopover({ settings = {}, defaults, onChange, disabled }: GenerationSettingsPopoverProps) {
+    // Bumped on reset so the fields drop their drafts
+    const [resetCount, setResetCount] = useState(0);
+    const hasOverrides = Object.keys(settings).length > 0;
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn(
+                        "h-8 w-8 rounded-full hover:bg-muted",
+                        hasOverrides ? "text-primary" : "text-muted-foreground/50"
+                    )}
+                    disabled={disabled}
+                    title="Generation settings"
+                >
+                    <SlidersHorizontal className="h-4 w-4" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-80 rounded-2xl">
+                <div className="flex items-center justify-between mb-3">
+                    <span className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Generation</span>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 rounded-lg text-[10px] font-bold uppercase tracking-wider gap-1 text-muted-foreground"
+                        onClick={() => {
+                            onChange({});
+                            setResetCount(resetCount + 1);
+                        }}
+                        disabled={!hasOverrides}
+                    >
+                        <RotateCcw className="h-3 w-3" />
+                        Reset
+                    </Button>
+                </div>
+                <GenerationSettingsFields
+                    key={resetCount}
+                    settings={settings}
+                    onChange={onChange}
+                    placeholders={defaults}
+                />
+                <p className="text-[10px] text-muted-foreground/70 mt-3 px-1">
+                    Saved with this conversation. Empty fields use the provider defaults from Settings; parameters the provider doesn&apos;t support are not sent.
+                </p>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { ImageOptions, ImageSize, ImageQuality, MAX_IMAGE_COUNT } from '@/types';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ImageIcon } from 'lucide-react';
+
+const SIZES: { value: ImageSize; label: string }[] = [
+    { value: 'square', label: 'Square' },
+    { value: 'landscape', label: 'Landscape' },
+    { value: 'portrait', label: 'Portrait' },
+];
+
+const QUALITIES: { value: ImageQuality; label: string }[] = [
+    { value: 'standard', label: 'Standard' },
+    { value: 'high', label: 'High' },
+];
+
+// Row of toggle buttons, one per option
+function OptionRow<T extends string | number>({ label, options, value, onChange }: {
+    label: string;
+    options: { value: T; label: string }[];
+    value: T;
+    onChange: (value: T) => void;
+}) {
+    return (
+        <div className="space-y-1">
+            <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">{label}</label>
+            <div className="flex gap-1">
+                {options.map(option => (
+                    <Button
+                        key={option.value}
+                        variant="outline"
+                        size="sm"
+                        className={cn(
+                            "h-8 flex-1 rounded-lg text-xs",
+                            option.value === value ? "text-primary border-primary/40 bg-primary/5" : "text-muted-foreground"
+                        )}
+                        onClick={() => onChange(option.value)}
+                    >
+                        {option.label}
+                    </Button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+interface ImageOptionsPopoverProps {
+    options: ImageOptions;
+    onChange: (options: ImageOptions) => void;
+    disabled?: boolean;
+}
+
+export function ImageOptionsPopover({ options, onChange, disabled }: ImageOptionsPopoverProps) {
+    const counts = Array.from({ length: MAX_IMAGE_COUNT }, (_, i) => ({ value: i + 1, label: String(i + 1) }));
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 rounded-full hover:bg-muted text-primary"
+                    disabled={disabled}
+                    title={`Images: ${options.count} × ${options.size}, ${options.quality} quality`}
+                >
+                    <ImageIcon className="h-4 w-4" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-80 rounded-2xl">
+                <span className="block text-xs font-bold uppercase tracking-wider text-muted-foreground mb-3">Image Generation</span>
+                <div className="space-y-3">
+                    <OptionRow label="Size" options={SIZES} value={options.size} onChange={(size) => onChange({ ...options, size })} />
+                    <OptionRow label="Images" options={counts} value={options.count} onChange={(count) => onChange({ ...options, count })} />
+                    <OptionRow label="Quality" options={QUALITIES} value={options.quality} onChange={(quality) => onChange({ ...options, quality })} />
+                </div>
+                <p className="text-[10px] text-muted-foreground/70 mt-3 px-1">
+                    Saved with this conversation. Models that don&apos;t offer a size or quality choice ignore it; most bill per image.
+                </p>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -1,3 +1,10 @@
 export { ChatMessage } from './chat-message';
 export { ChatInput } from './chat-input';
 export { ChatContainer } from './chat-container';
+export { RetryNotice } from './retry-notice';
+export { GenerationSettingsPopover, GenerationSettingsFields } from './generation-settings';
+export { CompareBar, MIN_COMPARE_TARGETS, MAX_COMPARE_TARGETS } from './compare-bar';
+export { ComparisonView } from './comparison-view';
+export { FallbackChainEditor, FallbackChainPopover } from './fallback-chain';
+export { ImageOptionsPopover } from './image-options';
+export { OpenRouterRoutingFields, OpenRouterRoutingPopover } from './openrouter-routing';
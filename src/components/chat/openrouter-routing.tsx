@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { OpenRouterRouting, OPENROUTER_QUANTIZATIONS } from '@/types';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Network, RotateCcw } from 'lucide-react';
+
+type PriceField = 'prompt' | 'completion';
+
+interface Drafts {
+    order: string;
+    prompt: string;
+    completion: string;
+}
+
+function toDrafts(routing: OpenRouterRouting): Drafts {
+    return {
+        order: routing.order?.join(', ') ?? '',
+        prompt: routing.maxPrice?.prompt?.toString() ?? '',
+        completion: routing.maxPrice?.completion?.toString() ?? '',
+    };
+}
+
+// On/off button matching the other settings toggles
+function Toggle({ label, enabled, onToggle }: { label: string; enabled: boolean; onToggle: () => void }) {
+    return (
+        <div className="flex items-center justify-between">
+            <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">{label}</label>
+            <Button
+                variant="outline"
+                size="sm"
+                className={cn(
+                    "h-7 w-14 rounded-lg text-[10px] font-bold uppercase tracking-wider",
+                    enabled ? "text-primary border-primary/40 bg-primary/5" : "text-muted-foreground"
+                )}
+                onClick={onToggle}
+            >
+                {enabled ? 'On' : 'Off'}
+            </Button>
+        </div>
+    );
+}
+
+interface OpenRouterRoutingFieldsProps {
+    routing: OpenRouterRouting;
+    onChange: (routing: OpenRouterRouting) => void;
+}
+
+// Empty fields are left unset so OpenRouter's own routing applies.
+// Remount (via `key`) when `routing` is replaced from outside.
+export function OpenRouterRoutingFields({ routing, onChange }: OpenRouterRoutingFieldsProps) {
+    const [drafts, setDrafts] = useState(() => toDrafts(routing));
+
+    const update = (patch: Partial<OpenRouterRouting>) => {
+        const next = { ...routing, ...patch };
+        (Object.keys(next) as (keyof OpenRouterRouting)[]).forEach(key => {
+            if (next[key] === undefined) delete next[key];
+        });
+        onChange(next);
+    };
+
+    const commitOrder = () => {
+        const order = drafts.order.split(',').map(s => s.trim().toLowerCase()).filter(s => s.length > 0);
+        setDrafts({ ...drafts, order: order.join(', ') });
+        update({ order: order.length > 0 ? order : undefined });
+    };
+
+    const commitPrice = (field: PriceField) => {
+        const parsed = parseFloat(drafts[field]);
+        const maxPrice = { ...routing.maxPrice };
+        if (isNaN(parsed) || parsed < 0) {
+            delete maxPrice[field];
+        } else {
+            maxPrice[field] = parsed;
+        }
+        setDrafts({ ...drafts, [field]: maxPrice[field]?.toString() ?? '' });
+        update({ maxPrice: Object.keys(maxPrice).length > 0 ? maxPrice : undefined });
+    };
+
+    const toggleQuantization = (quantization: typeof OPENROUTER_QUANTIZATIONS[number]) => {
+        const current = routing.quantizations ?? [];
+        const quantizations = current.includes(quantization)
+            ? current.filter(q => q !== quantization)
+            : [...current, quantization];
+        update({ quantizations: quantizations.length > 0 ? quantizations : undefined });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="space-y-1">
+                <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">Provider Order (comma separated)</label>
+                <Input
+                    value={drafts.order}
+                    placeholder="e.g. anthropic, together"
+                    onChange={(e) => setDrafts({ ...drafts, order: e.target.value })}
+                    onBlur={commitOrder}
+                    className="h-8 text-xs bg-background/50 border-muted-foreground/20 rounded-lg"
+                />
+            </div>
+            <Toggle
+                label="Allow Other Providers"
+                enabled={routing.allowFallbacks !== false}
+                onToggle={() => update({ allowFallbacks: routing.allowFallbacks === false ? undefined : false })}
+            />
+            <Toggle
+                label="Deny Data Collection"
+                enabled={!!routing.denyDataCollection}
+                onToggle={() => update({ denyDataCollection: routing.denyDataCollection ? undefined : true })}
+            />
+            <div className="space-y-1">
+                <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">Quantizations (none selected allows all)</label>
+                <div className="grid grid-cols-4 gap-1">
+                    {OPENROUTER_QUANTIZATIONS.map(quantization => (
+                        <Button
+                            key={quantization}
+                            variant="outline"
+                            size="sm"
+                            className={cn(
+                                "h-7 rounded-lg text-[10px] font-mono",
+                                routing.quantizations?.includes(quantization) ? "text-primary border-primary/40 bg-primary/5" : "text-muted-foreground"
+                            )}
+                            onClick={() => toggleQuantization(quantization)}
+                        >
+                            {quantization}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-x-3">
+                {(['prompt', 'completion'] as PriceField[]).map(field => (
+                    <div key={field} className="space-y-1">
+                        <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">
+                            Max {field === 'prompt' ? 'Input' : 'Output'} ($/1M)
+                        </label>
+                        <Input
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            value={drafts[field]}
+                            placeholder="No limit"
+                            onChange={(e) => setDrafts({ ...drafts, [field]: e.target.value })}
+                            onBlur={() => commitPrice(field)}
+                            className="h-8 text-xs bg-background/50 border-muted-foreground/20 rounded-lg"
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+interface OpenRouterRoutingPopoverProps {
+    routing?: OpenRouterRouting; // This conversation's routing; undefined uses the global one
+    globalRouting: OpenRouterRouting;
+    onChange: (routing: OpenRouterRouting | undefined) => void;
+    disabled?: boolean;
+}
+
+export function OpenRouterRoutingPopover({ routing, globalRouting, onChange, disabled }: OpenRouterRoutingPopoverProps) {
+    // Bumped when the global routing is restored so the fields drop their drafts
+    const [resetCount, setResetCount] = useState(0);
+    const effective = routing ?? globalRouting;
+    const active = Object.keys(effective).length > 0;
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn(
+                        "h-8 w-8 rounded-full hover:bg-muted",
+                        active ? "text-primary" : "text-muted-foreground/50"
+                    )}
+                    disabled={disabled}
+                    title={effective.order?.length ? `Providers: ${effective.order.join(' → ')}` : 'OpenRouter provider routing'}
+                >
+                    <Network className="h-4 w-4" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-80 rounded-2xl">
+                <div className="flex items-center justify-between mb-3">
+                    <span className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Provider Routing</span>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 rounded-lg text-[10px] font-bold uppercase tracking-wider gap-1 text-muted-foreground"
+                        onClick={() => {
+                            onChange(undefined);
+                            setResetCount(resetCount + 1);
+                        }}
+                        disabled={!routing}
+                    >
+                        <RotateCcw className="h-3 w-3" />
+                        Use global
+                    </Button>
+                </div>
+                <OpenRouterRoutingFields key={resetCount} routing={effective} onChange={onChange} />
+                <p className="text-[10px] text-muted-foreground/70 mt-3 px-1">
+                    {routing
+                        ? 'Saved with this conversation. '
+                        : 'Using the global routing from Settings; editing it here saves a copy for this conversation. '}
+                    Provider slugs are listed on each model&apos;s page at openrouter.ai.
+                </p>
+            </PopoverContent>
+        </Popover>
+    );
+}
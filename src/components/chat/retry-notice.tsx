@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { RetryInfo } from '@/types';
+import { Loader2 } from 'lucide-react';
+
+interface RetryNoticeProps {
+    retry: RetryInfo;
+    resumeAt: number; // Timestamp when the next attempt starts
+}
+
+function describeFailure(status?: number): string {
+    if (status === undefined) return 'Network error';
+    if (status === 429) return 'Rate limited';
+    if (status === 529) return 'Provider overloaded';
+    return `Provider error (${status})`;
+}
+
+// Countdown shown while a failed request waits to be retried
+export function RetryNotice({ retry, resumeAt }: RetryNoticeProps) {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(timer);
+    }, []);
+
+    const secondsLeft = Math.max(0, Math.ceil((resumeAt - now) / 1000));
+
+    return (
+        <div className="mx-4 mt-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg flex items-center gap-2 text-yellow-600">
+            <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />
+            <p className="text-sm">
+                {describeFailure(retry.status)}.{' '}
+                {secondsLeft > 0 ? `Retrying in ${secondsLeft}s` : 'Retrying now'}
+                {' '}(attempt {retry.attempt} of {retry.maxRetries})
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState } from 'react';
+import { CustomProviderConfig, CustomProviderAuthScheme } from '@/types';
+import {
+    getCustomProviders,
+    saveCustomProvider,
+    deleteCustomProvider,
+    createCustomProviderId,
+    getApiKeys,
+    setApiKey,
+    removeApiKey,
+} from '@/lib/storage';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Server, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+
+interface ProviderDraft {
+    id?: CustomProviderConfig['id'];
+    name: string;
+    baseUrl: string;
+    modelsEndpoint: string;
+    headers: string; // One "Name: value" pair per line
+    authScheme: CustomProviderAuthScheme;
+    authHeader: string;
+    apiKey: string;
+}
+
+const EMPTY_DRAFT: ProviderDraft = {
+    name: '',
+    baseUrl: '',
+    modelsEndpoint: '/models',
+    headers: '',
+    authScheme: 'bearer',
+    authHeader: '',
+    apiKey: '',
+};
+
+function parseHeaders(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    text.split('\n').forEach(line => {
+        const colon = line.indexOf(':');
+        if (colon > 0) {
+            const name = line.slice(0, colon).trim();
+            const value = line.slice(colon + 1).trim();
+            if (name) headers[name] = value;
+        }
+    });
+    return headers;
+}
+
+function formatHeaders(headers?: Record<string, string>): string {
+    return Object.entries(headers || {})
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n');
+}
+
+function isValidUrl(url: string): boolean {
+    try {
+        new URL(url);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function CustomProvidersSection() {
+    const [providers, setProviders] = useState<CustomProviderConfig[]>(() => getCustomProviders());
+    const [draft, setDraft] = useState<ProviderDraft | null>(null);
+    const [draftError, setDraftError] = useState<string | null>(null);
+
+    const startEditing = (provider?: CustomProviderConfig) => {
+        setDraftError(null);
+        if (!provider) {
+            setDraft({ ...EMPTY_DRAFT });
+            return;
+        }
+        setDraft({
+            id: provider.id,
+            name: provider.name,
+            baseUrl: provider.baseUrl,
+            modelsEndpoint: provider.modelsEndpoint || '/models',
+            headers: formatHeaders(provider.headers),
+            authScheme: provider.authScheme,
+            authHeader: provider.authHeader || '',
+            apiKey: getApiKeys()[provider.id] || '',
+        });
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+
+        const name = draft.name.trim();
+        const baseUrl = draft.baseUrl.trim();
+        if (!name) {
+            setDraftError('Name is required.');
+            return;
+        }
+        if (!isValidUrl(baseUrl)) {
+            setDraftError('Base URL must be a full URL, e.g. https://gateway.example.com/v1');
+            return;
+        }
+        if (draft.authScheme === 'header' && !draft.authHeader.trim()) {
+            setDraftError('Header name is required for header authentication.');
+            return;
+        }
+
+        const modelsEndpoint = draft.modelsEndpoint.trim() || '/models';
+        const config: CustomProviderConfig = {
+            id: draft.id || createCustomProviderId(),
+            name,
+            baseUrl,
+            modelsEndpoint: modelsEndpoint.startsWith('/') ? modelsEndpoint : `/${modelsEndpoint}`,
+            headers: parseHeaders(draft.headers),
+            authScheme: draft.authScheme,
+            authHeader: draft.authScheme === 'header' ? draft.authHeader.trim() : undefined,
+        };
+
+        saveCustomProvider(config);
+        if (draft.apiKey.trim() && draft.authScheme !== 'none') {
+            setApiKey(config.id, draft.apiKey.trim());
+        } else {
+            removeApiKey(config.id);
+        }
+
+        setProviders(getCustomProviders());
+        setDraft(null);
+        setDraftError(null);
+    };
+
+    const handleDelete = (provider: CustomProviderConfig) => {
+        deleteCustomProvider(provider.id);
+        setProviders(getCustomProviders());
+        if (draft?.id === provider.id) setDraft(null);
+    };
+
+    return (
+        <div className="space-y-5">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Server className="h-4 w-4 text-primary" />
+                    <h3 className="text-xs font-bold uppercase tracking-[0.2em] text-muted-foreground/70">Custom Providers</h3>
+                </div>
+                {!draft && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8 rounded-xl text-xs font-bold uppercase tracking-wider gap-1.5"
+                        onClick={() => startEditing()}
+                    >
+                        <Plus className="h-3.5 w-3.5" />
+                        Add
+                    </Button>
+                )}
+            </div>
+
+            {providers.length === 0 && !draft && (
+                <p className="text-[10px] text-muted-foreground/70 px-1">
+                    Connect any OpenAI-compatible endpoint, such as vLLM, LiteLLM or an internal gateway.
+                </p>
+            )}
+
+            <div className="space-y-3">
+                {providers.map(provider => (
+                    <div key={provider.id} className="flex items-center justify-between gap-3 p-4 rounded-2xl bg-muted/10 border border-muted/20">
+                        <div className="min-w-0">
+                            <p className="text-sm font-bold tracking-tight truncate">{provider.name}</p>
+                            <p className="text-[10px] text-muted-foreground truncate">{provider.baseUrl}</p>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                className="rounded-xl h-9 w-9"
+                                onClick={() => startEditing(provider)}
+                            >
+                                <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                                size="icon"
+                                variant="ghost"
+                                className="rounded-xl h-9 w-9"
+                                onClick={() => handleDelete(provider)}
+                            >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {draft && (
+                <div className="p-4 rounded-2xl bg-muted/10 border border-muted/20 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1.5">
+                            <label className="text-xs font-semibold text-muted-foreground ml-1">Name</label>
+                            <Input
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                placeholder="Internal vLLM"
+                                className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                            />
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className="text-xs font-semibold text-muted-foreground ml-1">Models Endpoint</label>
+                            <Input
+                                value={draft.modelsEndpoint}
+                                onChange={(e) => setDraft({ ...draft, modelsEndpoint: e.target.value })}
+                                placeholder="/models"
+                                className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-1.5">
+                        <label className="text-xs font-semibold text-muted-foreground ml-1">Base URL</label>
+                        <Input
+                            value={draft.baseUrl}
+                            onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                            placeholder="https://gateway.example.com/v1"
+                            className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1.5">
+                            <label className="text-xs font-semibold text-muted-foreground ml-1">Authentication</label>
+                            <Select
+                                value={draft.authScheme}
+                                onValueChange={(v) => setDraft({ ...draft, authScheme: v as CustomProviderAuthScheme })}
+                            >
+                                <SelectTrigger className="h-10 w-full bg-background/50 border-muted-foreground/20 rounded-xl">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="bearer">Bearer token</SelectItem>
+                                    <SelectItem value="header">Custom header</SelectItem>
+                                    <SelectItem value="none">None</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {draft.authScheme === 'header' && (
+                            <div className="space-y-1.5">
+                                <label className="text-xs font-semibold text-muted-foreground ml-1">Header Name</label>
+                                <Input
+                                    value={draft.authHeader}
+                                    onChange={(e) => setDraft({ ...draft, authHeader: e.target.value })}
+                                    placeholder="X-Api-Key"
+                                    className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                                />
+                            </div>
+                        )}
+                    </div>
+                    {draft.authScheme !== 'none' && (
+                        <div className="space-y-1.5">
+                            <label className="text-xs font-semibold text-muted-foreground ml-1">API Key</label>
+                            <Input
+                                type="password"
+                                value={draft.apiKey}
+                                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                                placeholder="Enter key..."
+                                className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                            />
+                        </div>
+                    )}
+                    <div className="space-y-1.5">
+                        <label className="text-xs font-semibold text-muted-foreground ml-1">Extra Headers</label>
+                        <Textarea
+                            value={draft.headers}
+                            onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+                            placeholder={'X-Team: platform\nX-Project: shadchat'}
+                            className="min-h-[72px] rounded-xl bg-background/50 border-muted-foreground/20 text-xs font-mono"
+                        />
+                        <p className="text-[10px] text-muted-foreground/70 px-1">
+                            One header per line, as Name: value.
+                        </p>
+                    </div>
+                    {draftError && (
+                        <p className="text-xs text-destructive px-1">{draftError}</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            className="rounded-xl h-10 w-10"
+                            onClick={() => {
+                                setDraft(null);
+                                setDraftError(null);
+                            }}
+                        >
+                            <X className="h-4 w-4 text-destructive" />
+                        </Button>
+                        <Button
+                            size="icon"
+                            variant="secondary"
+                            className="rounded-xl h-10 w-10"
+                            onClick={handleSave}
+                        >
+                            <Check className="h-4 w-4 text-green-500" />
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
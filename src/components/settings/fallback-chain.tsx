@@ -0,0 +1,26 @@
+'use client';
+
+import { useState } from 'react';
+import { ModelRef } from '@/types';
+import { getFallbackChain, setFallbackChain } from '@/lib/storage';
+import { FallbackChainEditor } from '@/components/chat';
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function FallbackChainSection() {
+    const [chain, setChain] = useState(() => getFallbackChain());
+
+    const handleChange = (next: ModelRef[]) => {
+        setFallbackChain(next);
+        setChain(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            <label className="text-xs font-semibold text-muted-foreground ml-1">Fallback Models</label>
+            <FallbackChainEditor chain={chain} onChange={handleChange} />
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                When the selected model fails before producing any output (overloaded, out of quota...), the request is retried on these models in order. Conversations can set their own chain.
+            </p>
+        </div>
+    );
+}
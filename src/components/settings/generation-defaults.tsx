@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { ProviderId, GenerationSettings } from '@/types';
+import { getProviders, getGenerationDefaults, setGenerationDefaults } from '@/lib/storage';
+import { GenerationSettingsFields } from '@/components/chat';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function GenerationDefaultsSection() {
+    const [providerId, setProviderId] = useState<ProviderId>('openai');
+    const [settings, setSettings] = useState(() => getGenerationDefaults('openai'));
+
+    const handleProviderChange = (id: ProviderId) => {
+        setProviderId(id);
+        setSettings(getGenerationDefaults(id));
+    };
+
+    const handleChange = (next: GenerationSettings) => {
+        setGenerationDefaults(providerId, next);
+        setSettings(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <label className="text-xs font-semibold text-muted-foreground ml-1">Generation Defaults</label>
+                <Select value={providerId} onValueChange={(v) => handleProviderChange(v as ProviderId)}>
+                    <SelectTrigger className="h-8 w-44 bg-background/50 border-muted-foreground/20 rounded-lg text-xs">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {getProviders().map(provider => (
+                            <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <GenerationSettingsFields
+                key={providerId}
+                settings={settings}
+                onChange={handleChange}
+            />
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                Used for every chat with this provider unless the conversation sets its own values. Empty fields use the provider&apos;s own defaults.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { KeyStatus, KeyValidation } from '@/types';
+import { cn } from '@/lib/utils';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+const STATUS_LABELS: Record<KeyStatus, { label: string; className: string }> = {
+    verified: { label: 'Verified', className: 'text-green-600 bg-green-500/10' },
+    invalid: { label: 'Invalid', className: 'text-destructive bg-destructive/10' },
+    quota_exhausted: { label: 'Out of quota', className: 'text-amber-600 bg-amber-500/10' },
+    error: { label: 'Check failed', className: 'text-muted-foreground bg-muted/50' },
+};
+
+interface KeyStatusBadgeProps {
+    validation?: KeyValidation;
+    checking?: boolean;
+    onCheck: () => void;
+}
+
+// Result of the last key check with a button to run it again
+export function KeyStatusBadge({ validation, checking, onCheck }: KeyStatusBadgeProps) {
+    return (
+        <div className="flex items-center gap-1">
+            {validation && !checking && (
+                <span
+                    className={cn('text-[10px] font-semibold px-2 py-0.5 rounded-full cursor-help', STATUS_LABELS[validation.status].className)}
+                    title={[
+                        validation.message,
+                        `Checked ${new Date(validation.checkedAt).toLocaleString()}`,
+                    ].filter(Boolean).join('\n')}
+                >
+                    {STATUS_LABELS[validation.status].label} · {validation.latencyMs} ms
+                </span>
+            )}
+            <button
+                onClick={onCheck}
+                disabled={checking}
+                className="h-6 w-6 rounded-full flex items-center justify-center text-muted-foreground hover:text-primary hover:bg-muted transition-colors"
+                title={validation ? 'Check again' : 'Check key'}
+            >
+                {checking ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { MockProviderSettings, MockResponseMode, MockFailure } from '@/types';
+import { getMockProviderSettings, setMockProviderSettings } from '@/lib/storage';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+type NumericField = 'latencyMs' | 'chunkDelayMs' | 'chunkSize' | 'failureRate' | 'failureStatus';
+
+const NUMERIC_FIELDS: { key: NumericField; label: string; min: number; max: number; step: number }[] = [
+    { key: 'latencyMs', label: 'Latency (ms)', min: 0, max: 30000, step: 100 },
+    { key: 'chunkDelayMs', label: 'Chunk Delay (ms)', min: 0, max: 5000, step: 10 },
+    { key: 'chunkSize', label: 'Chunk Size (chars)', min: 1, max: 1000, step: 1 },
+    { key: 'failureRate', label: 'Failure Rate (0-1)', min: 0, max: 1, step: 0.1 },
+    { key: 'failureStatus', label: 'HTTP Status', min: 400, max: 599, step: 1 },
+];
+
+// Scripted replies are separated by a line containing only ---
+const SCRIPT_SEPARATOR = /\n-{3,}\n/;
+
+function toDrafts(settings: MockProviderSettings): Record<NumericField, string> {
+    return {
+        latencyMs: String(settings.latencyMs),
+        chunkDelayMs: String(settings.chunkDelayMs),
+        chunkSize: String(settings.chunkSize),
+        failureRate: String(settings.failureRate),
+        failureStatus: String(settings.failureStatus),
+    };
+}
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function MockProviderSection() {
+    const [settings, setSettings] = useState(() => getMockProviderSettings());
+    const [drafts, setDrafts] = useState(() => toDrafts(settings));
+    const [script, setScript] = useState(() => settings.script.join('\n---\n'));
+
+    const update = (patch: Partial<MockProviderSettings>) => {
+        setMockProviderSettings(patch);
+        setSettings(getMockProviderSettings());
+    };
+
+    const handleBlur = (field: typeof NUMERIC_FIELDS[number]) => {
+        const parsed = parseFloat(drafts[field.key]);
+        if (isNaN(parsed)) {
+            setDrafts(toDrafts(settings));
+            return;
+        }
+        const clamped = Math.min(field.max, Math.max(field.min, parsed));
+        update({ [field.key]: clamped });
+        setDrafts({ ...drafts, [field.key]: String(clamped) });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold text-muted-foreground ml-1">Mock Provider (Developer)</label>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                        "h-7 w-14 rounded-lg text-[10px] font-bold uppercase tracking-wider",
+                        settings.enabled ? "text-primary border-primary/40 bg-primary/5" : "text-muted-foreground"
+                    )}
+                    onClick={() => update({ enabled: !settings.enabled })}
+                >
+                    {settings.enabled ? 'On' : 'Off'}
+                </Button>
+            </div>
+            {settings.enabled && (
+                <>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">Replies</label>
+                            <Select value={settings.mode} onValueChange={(v) => update({ mode: v as MockResponseMode })}>
+                                <SelectTrigger className="h-10 w-full bg-background/50 border-muted-foreground/20 rounded-xl">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="echo">Echo the prompt</SelectItem>
+                                    <SelectItem value="scripted">Scripted</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1.5">
+                            <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">Failure</label>
+                            <Select value={settings.failure} onValueChange={(v) => update({ failure: v as MockFailure })}>
+                                <SelectTrigger className="h-10 w-full bg-background/50 border-muted-foreground/20 rounded-xl">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">None</SelectItem>
+                                    <SelectItem value="http">HTTP error</SelectItem>
+                                    <SelectItem value="disconnect">Mid-stream disconnect</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                    {settings.mode === 'scripted' && (
+                        <Textarea
+                            value={script}
+                            onChange={(e) => setScript(e.target.value)}
+                            onBlur={() => update({ script: script.split(SCRIPT_SEPARATOR).map(s => s.trim()).filter(Boolean) })}
+                            placeholder={'First reply\n---\nSecond reply'}
+                            className="min-h-[80px] text-xs font-mono bg-background/50 border-muted-foreground/20 rounded-xl"
+                        />
+                    )}
+                    <div className="grid grid-cols-5 gap-2">
+                        {NUMERIC_FIELDS.map(field => (
+                            <div key={field.key} className="space-y-1.5">
+                                <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">{field.label}</label>
+                                <Input
+                                    type="number"
+                                    min={field.min}
+                                    max={field.max}
+                                    step={field.step}
+                                    value={drafts[field.key]}
+                                    onChange={(e) => setDrafts({ ...drafts, [field.key]: e.target.value })}
+                                    onBlur={() => handleBlur(field)}
+                                    disabled={settings.failure === 'none' && (field.key === 'failureRate' || field.key === 'failureStatus')}
+                                    className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                Adds an offline &quot;Mock (Dev)&quot; provider with fake models for trying the app without API keys. Scripted replies are separated by a line containing only ---; they are used in turn, one per assistant reply.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { getModelCacheTtlMs, setPreferences, clearModelCache } from '@/lib/storage';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Trash2 } from 'lucide-react';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function ModelCacheSection() {
+    const [ttlHours, setTtlHours] = useState(() => String(getModelCacheTtlMs() / HOUR_MS));
+    const [cleared, setCleared] = useState(false);
+
+    const handleSaveTtl = () => {
+        const parsed = parseFloat(ttlHours);
+        if (isNaN(parsed) || parsed < 0) {
+            setTtlHours(String(getModelCacheTtlMs() / HOUR_MS));
+            return;
+        }
+        setPreferences({ modelCacheTtlHours: parsed });
+    };
+
+    const handleClear = () => {
+        clearModelCache();
+        setCleared(true);
+    };
+
+    return (
+        <div className="space-y-3">
+            <label className="text-xs font-semibold text-muted-foreground ml-1">Model List Cache (hours)</label>
+            <div className="flex gap-2">
+                <Input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={ttlHours}
+                    onChange={(e) => setTtlHours(e.target.value)}
+                    onBlur={handleSaveTtl}
+                    className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                />
+                <Button
+                    variant="outline"
+                    className="h-10 rounded-xl text-xs font-bold uppercase tracking-wider gap-1.5 shrink-0"
+                    onClick={handleClear}
+                    disabled={cleared}
+                >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    {cleared ? 'Cleared' : 'Clear'}
+                </Button>
+            </div>
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                Fetched model lists are shown instantly and refreshed in the background after this long. Use 0 to refresh every time.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useState } from 'react';
+import { OpenRouterRouting } from '@/types';
+import { getOpenRouterRouting, setOpenRouterRouting } from '@/lib/storage';
+import { OpenRouterRoutingFields } from '@/components/chat';
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function OpenRouterRoutingSection() {
+    const [routing, setRouting] = useState(() => getOpenRouterRouting());
+
+    const handleChange = (next: OpenRouterRouting) => {
+        setOpenRouterRouting(next);
+        setRouting(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            <label className="text-xs font-semibold text-muted-foreground ml-1">OpenRouter Provider Routing</label>
+            <OpenRouterRoutingFields routing={routing} onChange={handleChange} />
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                Controls which upstream providers OpenRouter may send requests to: the order to try them in, whether others can step in, and limits on data retention, precision and price. Conversations can set their own routing.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { ProviderId, ModelPrice } from '@/types';
+import { getProviders, getProvider, getPricingOverrides, setPricingOverride, removePricingOverride } from '@/lib/storage';
+import { resolveModelPrice, pricingOverrideKey } from '@/lib/pricing';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+
+type PriceField = keyof ModelPrice;
+
+const FIELDS: { key: PriceField; label: string }[] = [
+    { key: 'input', label: 'Input' },
+    { key: 'output', label: 'Output' },
+    { key: 'cachedInput', label: 'Cache Read' },
+    { key: 'cacheWrite', label: 'Cache Write' },
+    { key: 'reasoning', label: 'Reasoning' },
+    { key: 'perImage', label: 'Per Image' },
+];
+
+// Fall back to the input / output price when left out; images are free unless priced
+const OPTIONAL_FIELDS: PriceField[] = ['cachedInput', 'cacheWrite', 'reasoning', 'perImage'];
+
+const EMPTY_PRICES: Record<PriceField, string> = { input: '', output: '', cachedInput: '', cacheWrite: '', reasoning: '', perImage: '' };
+
+function parsePrice(value: string): number | undefined {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+function formatPrice(price: ModelPrice): string {
+    const parts = [`$${price.input} in`, `$${price.output} out`];
+    if (price.cachedInput !== undefined) parts.push(`$${price.cachedInput} cache read`);
+    if (price.cacheWrite !== undefined) parts.push(`$${price.cacheWrite} cache write`);
+    if (price.reasoning !== undefined) parts.push(`$${price.reasoning} reasoning`);
+    if (price.perImage !== undefined) parts.push(`$${price.perImage} per image`);
+    return parts.join(' · ');
+}
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function PricingOverridesSection() {
+    const [overrides, setOverrides] = useState(() => getPricingOverrides());
+    const [providerId, setProviderId] = useState<ProviderId>('openai');
+    const [modelId, setModelId] = useState('');
+    const [prices, setPrices] = useState(EMPTY_PRICES);
+
+    // Show what is currently charged so users only need to fill in what differs
+    const current = modelId.trim() ? resolveModelPrice(providerId, modelId.trim()).price : undefined;
+
+    const handleAdd = () => {
+        const id = modelId.trim();
+        const input = parsePrice(prices.input) ?? current?.input;
+        const output = parsePrice(prices.output) ?? current?.output;
+        if (!id || input === undefined || output === undefined) return;
+
+        const price: ModelPrice = { input, output };
+        OPTIONAL_FIELDS.forEach(field => {
+            const value = parsePrice(prices[field]);
+            if (value !== undefined) price[field] = value;
+        });
+
+        setPricingOverride(pricingOverrideKey(providerId, id), price);
+        setOverrides(getPricingOverrides());
+        setModelId('');
+        setPrices(EMPTY_PRICES);
+    };
+
+    const handleRemove = (key: string) => {
+        removePricingOverride(key);
+        setOverrides(getPricingOverrides());
+    };
+
+    return (
+        <div className="space-y-3">
+            <label className="text-xs font-semibold text-muted-foreground ml-1">Model Pricing Overrides ($ per 1M tokens)</label>
+            {Object.keys(overrides).length > 0 && (
+                <div className="space-y-1.5">
+                    {Object.entries(overrides).map(([key, price]) => {
+                        const separator = key.indexOf(':');
+                        const provider = getProvider(key.slice(0, separator) as ProviderId);
+                        return (
+                            <div key={key} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-muted/40 border border-border/50">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-xs font-semibold truncate">{key.slice(separator + 1)}</p>
+                                    <p className="text-[10px] text-muted-foreground truncate">
+                                        {provider?.name ?? key.slice(0, separator)} · {formatPrice(price)}
+                                    </p>
+                                </div>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                                    onClick={() => handleRemove(key)}
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+                <Select value={providerId} onValueChange={(v) => setProviderId(v as ProviderId)}>
+                    <SelectTrigger className="h-10 w-full bg-background/50 border-muted-foreground/20 rounded-xl">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {getProviders().map(provider => (
+                            <SelectItem key={provider.id} value={provider.id}>{provider.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Input
+                    value={modelId}
+                    onChange={(e) => setModelId(e.target.value)}
+                    placeholder="Model ID, e.g. gpt-4o"
+                    className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                {FIELDS.map(field => (
+                    <div key={field.key} className="space-y-1.5">
+                        <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">{field.label}</label>
+                        <Input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={prices[field.key]}
+                            onChange={(e) => setPrices({ ...prices, [field.key]: e.target.value })}
+                            placeholder={current?.[field.key]?.toString() ?? ''}
+                            className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-[10px] text-muted-foreground/70 px-1">
+                    Overrides replace built-in and provider-reported prices. Empty input and output fields keep the current price.
+                </p>
+                <Button
+                    variant="outline"
+                    className="h-10 rounded-xl text-xs font-bold uppercase tracking-wider gap-1.5 shrink-0"
+                    onClick={handleAdd}
+                    disabled={!modelId.trim()}
+                >
+                    <Plus className="h-3.5 w-3.5" />
+                    Save
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { useState } from 'react';
+import { getPreferences, setPreferences } from '@/lib/storage';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function PromptCachingSection() {
+    const [enabled, setEnabled] = useState(() => getPreferences().promptCaching !== false);
+
+    const handleToggle = () => {
+        setPreferences({ promptCaching: !enabled });
+        setEnabled(!enabled);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold text-muted-foreground ml-1">Prompt Caching</label>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                        "h-7 w-14 rounded-lg text-[10px] font-bold uppercase tracking-wider",
+                        enabled ? "text-primary border-primary/40 bg-primary/5" : "text-muted-foreground"
+                    )}
+                    onClick={handleToggle}
+                >
+                    {enabled ? 'On' : 'Off'}
+                </Button>
+            </div>
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                Marks the system prompt, large attachments and earlier turns as cacheable on Anthropic models. Cache writes cost 25% more than normal input; cache reads cost 90% less, so long chats get cheaper from the second turn on.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useState } from 'react';
+import { getProxyToken, setProxyToken, getServerKeyProviders } from '@/lib/storage';
+import { Input } from '@/components/ui/input';
+
+// Rendered inside the settings dialog, so state is fresh every time it opens.
+// Only shown when the deployment holds keys (proxy mode).
+export function ProxyTokenSection() {
+    const [token, setToken] = useState(() => getProxyToken());
+
+    if (getServerKeyProviders().length === 0) return null;
+
+    return (
+        <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground ml-1">Proxy Access Token</label>
+            <Input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                onBlur={() => setProxyToken(token.trim())}
+                placeholder="Token from whoever runs this deployment"
+                className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+            />
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                Providers marked &quot;Server key&quot; use this deployment&apos;s keys, which its server only lends to requests carrying this token.
+            </p>
+        </div>
+    );
+}
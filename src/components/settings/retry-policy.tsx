@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from '@/types';
+import { getRetryPolicy, setRetryPolicy } from '@/lib/storage';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { RotateCcw } from 'lucide-react';
+
+interface RetryField {
+    key: keyof RetryPolicy;
+    label: string;
+    scale: number; // Stored value per displayed unit
+    min: number;
+    max: number;
+    step: number;
+}
+
+const FIELDS: RetryField[] = [
+    { key: 'maxRetries', label: 'Max Retries', scale: 1, min: 0, max: 10, step: 1 },
+    { key: 'baseDelayMs', label: 'First Delay (s)', scale: 1000, min: 0.1, max: 30, step: 0.5 },
+    { key: 'maxDelayMs', label: 'Max Wait (s)', scale: 1000, min: 1, max: 300, step: 1 },
+];
+
+function toDisplay(policy: RetryPolicy): Record<keyof RetryPolicy, string> {
+    return {
+        maxRetries: String(policy.maxRetries),
+        baseDelayMs: String(policy.baseDelayMs / 1000),
+        maxDelayMs: String(policy.maxDelayMs / 1000),
+    };
+}
+
+// Rendered inside the settings dialog, so state is fresh every time it opens
+export function RetryPolicySection() {
+    const [values, setValues] = useState(() => toDisplay(getRetryPolicy()));
+
+    const handleBlur = (field: RetryField) => {
+        const parsed = parseFloat(values[field.key]);
+        if (isNaN(parsed)) {
+            setValues(toDisplay(getRetryPolicy()));
+            return;
+        }
+        const clamped = Math.min(field.max, Math.max(field.min, parsed));
+        setRetryPolicy({ [field.key]: Math.round(clamped * field.scale) });
+        setValues(toDisplay(getRetryPolicy()));
+    };
+
+    const handleReset = () => {
+        setRetryPolicy(DEFAULT_RETRY_POLICY);
+        setValues(toDisplay(DEFAULT_RETRY_POLICY));
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold text-muted-foreground ml-1">Request Retries</label>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 rounded-lg text-[10px] font-bold uppercase tracking-wider gap-1 text-muted-foreground"
+                    onClick={handleReset}
+                >
+                    <RotateCcw className="h-3 w-3" />
+                    Reset
+                </Button>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+                {FIELDS.map(field => (
+                    <div key={field.key} className="space-y-1.5">
+                        <label className="text-[10px] font-semibold text-muted-foreground/80 ml-1">{field.label}</label>
+                        <Input
+                            type="number"
+                            min={field.min}
+                            max={field.max}
+                            step={field.step}
+                            value={values[field.key]}
+                            onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                            onBlur={() => handleBlur(field)}
+                            className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                        />
+                    </div>
+                ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground/70 px-1">
+                Rate limits (429) and server errors (500, 502, 503, 529) are retried with exponential backoff before a reply starts. Server-requested waits longer than the max wait are not retried.
+            </p>
+        </div>
+    );
+}
@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
-import { ProviderId, PROVIDERS, ApiKeys, Conversation } from '@/types';
-import { getApiKeys, setApiKey, removeApiKey, getPreferences, setPreferences, getConversations } from '@/lib/storage';
+import { ProviderId, BuiltInProviderId, PROVIDERS, ApiKeys, Conversation, KeyValidation } from '@/types';
+import { getApiKeys, setApiKey, removeApiKey, getPreferences, setPreferences, getConversations, getBaseUrls, setBaseUrl, removeBaseUrl, getKeyValidations, setKeyValidation, hasServerKey } from '@/lib/storage';
+import { getAdapter } from '@/lib/providers';
 import { Textarea } from '@/components/ui/textarea';
 import {
     Dialog,
@@ -25,31 +26,48 @@ import {
 } from "@/components/ui/chart";
 import { Bar, BarChart, XAxis, YAxis, Cell } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CustomProvidersSection } from './custom-providers';
+import { RetryPolicySection } from './retry-policy';
+import { ModelCacheSection } from './model-cache';
+import { PricingOverridesSection } from './pricing-overrides';
+import { PromptCachingSection } from './prompt-caching';
+import { GenerationDefaultsSection } from './generation-defaults';
+import { FallbackChainSection } from './fallback-chain';
+import { OpenRouterRoutingSection } from './openrouter-routing';
+import { MockProviderSection } from './mock-provider';
+import { KeyStatusBadge } from './key-status';
+import { ProxyTokenSection } from './proxy-token';
 
 interface SettingsDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
 }
 
-const PROVIDER_DOCS: Record<ProviderId, string> = {
+// Where to get a key; the dev-only mock provider has none
+const PROVIDER_DOCS: Partial<Record<BuiltInProviderId, string>> = {
     gemini: 'https://aistudio.google.com/apikey',
     anthropic: 'https://console.anthropic.com/settings/keys',
     openai: 'https://platform.openai.com/api-keys',
     xai: 'https://console.x.ai/',
     groq: 'https://console.groq.com/keys',
     openrouter: 'https://openrouter.ai/keys',
+    ollama: 'https://github.com/ollama/ollama/blob/main/docs/faq.md#how-can-i-allow-additional-web-origins-to-access-ollama',
 };
 
 export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     const [keys, setKeys] = useState<ApiKeys>({});
     const [visibleKeys, setVisibleKeys] = useState<Set<ProviderId>>(new Set());
     const [editingKeys, setEditingKeys] = useState<Partial<ApiKeys>>({});
+    const [validations, setValidations] = useState<Partial<Record<ProviderId, KeyValidation>>>({});
+    const [checkingKeys, setCheckingKeys] = useState<Set<ProviderId>>(new Set());
+    const [baseUrls, setBaseUrls] = useState<Partial<Record<ProviderId, string>>>({});
     const [systemPrompt, setSystemPrompt] = useState('');
     const [username, setUsername] = useState('');
     const [avatar, setAvatar] = useState<string | undefined>();
     const [usageData, setUsageData] = useState<{ model: string; usage: number; fill: string }[]>([]);
 
-    const providerList = Object.values(PROVIDERS);
+    // The mock provider needs no key and is toggled in its own section
+    const providerList = Object.values(PROVIDERS).filter(p => !p.devOnly);
 
     useEffect(() => {
         if (open) {
@@ -97,6 +115,8 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
         if (open) {
             const currentKeys = getApiKeys();
             setKeys(currentKeys);
+            setValidations(getKeyValidations());
+            setBaseUrls(getBaseUrls());
             setVisibleKeys(new Set());
             const prefs = getPreferences();
             setSystemPrompt(prefs.systemPrompt || '');
@@ -125,17 +145,40 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
         setVisibleKeys(newVisible);
     };
 
+    const handleCheckKey = async (providerId: ProviderId, key = keys[providerId] ?? '') => {
+        setCheckingKeys(prev => new Set(prev).add(providerId));
+        try {
+            const result = await getAdapter(providerId).validateKey(key);
+            setKeyValidation(providerId, result);
+            setValidations(prev => ({ ...prev, [providerId]: result }));
+        } finally {
+            setCheckingKeys(prev => {
+                const next = new Set(prev);
+                next.delete(providerId);
+                return next;
+            });
+        }
+    };
+
     const handleSave = (providerId: ProviderId) => {
         const key = editingKeys[providerId];
         if (key !== undefined) {
             if (key.trim()) {
+                const changed = key.trim() !== keys[providerId];
                 setApiKey(providerId, key.trim());
                 setKeys({ ...keys, [providerId]: key.trim() });
+                // Check new keys right away so a bad paste shows up here, not on the chat page
+                if (changed) {
+                    handleCheckKey(providerId, key.trim());
+                }
             } else {
                 removeApiKey(providerId);
                 const newKeys = { ...keys };
                 delete newKeys[providerId];
                 setKeys(newKeys);
+                const newValidations = { ...validations };
+                delete newValidations[providerId];
+                setValidations(newValidations);
             }
             const newEditing = { ...editingKeys };
             delete newEditing[providerId];
@@ -143,6 +186,15 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
         }
     };
 
+    const handleSaveBaseUrl = (providerId: BuiltInProviderId) => {
+        const url = baseUrls[providerId]?.trim();
+        if (url && url !== PROVIDERS[providerId].baseUrl) {
+            setBaseUrl(providerId, url);
+        } else {
+            removeBaseUrl(providerId);
+        }
+    };
+
     const handleCancel = (providerId: ProviderId) => {
         const newEditing = { ...editingKeys };
         delete newEditing[providerId];
@@ -300,6 +352,14 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                                 Base instructions sent to all models unless overridden per conversation.
                             </p>
                         </div>
+                        <GenerationDefaultsSection />
+                        <FallbackChainSection />
+                        <OpenRouterRoutingSection />
+                        <RetryPolicySection />
+                        <ModelCacheSection />
+                        <PromptCachingSection />
+                        <PricingOverridesSection />
+                        <MockProviderSection />
                     </div>
 
                     <Separator className="opacity-50" />
@@ -311,17 +371,40 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                             <h3 className="text-xs font-bold uppercase tracking-[0.2em] text-muted-foreground/70">API Keys</h3>
                         </div>
                         <div className="space-y-4">
+                            <ProxyTokenSection />
                             {providerList.map((provider, index) => {
                                 const hasKey = !!keys[provider.id];
+                                // Proxy mode: the deployment's key is used and never shown
+                                const serverKey = hasServerKey(provider.id);
+                                const keyOptional = provider.requiresApiKey === false;
                                 const isEditing = editingKeys[provider.id] !== undefined;
                                 const isVisible = visibleKeys.has(provider.id);
+                                const validation = checkingKeys.has(provider.id) ? undefined : validations[provider.id];
 
                                 return (
                                     <div key={provider.id} className="p-4 rounded-2xl bg-muted/10 border border-muted/20 space-y-4">
                                         <div className="flex items-center justify-between">
                                             <div className="flex items-center gap-2">
-                                                <div className={cn("h-2 w-2 rounded-full", hasKey ? "bg-green-500 animate-pulse" : "bg-muted-foreground/30")} />
+                                                <div className={cn(
+                                                    "h-2 w-2 rounded-full",
+                                                    validation?.status === 'invalid' ? "bg-destructive" :
+                                                        validation?.status === 'quota_exhausted' ? "bg-amber-500" :
+                                                            hasKey || keyOptional || serverKey ? "bg-green-500 animate-pulse" : "bg-muted-foreground/30"
+                                                )} />
                                                 <label className="text-sm font-bold tracking-tight">{provider.name}</label>
+                                                {keyOptional && (
+                                                    <span className="text-[10px] text-muted-foreground bg-muted/50 px-2 py-0.5 rounded-full">Key optional</span>
+                                                )}
+                                                {serverKey && (
+                                                    <span className="text-[10px] text-muted-foreground bg-muted/50 px-2 py-0.5 rounded-full">Server key</span>
+                                                )}
+                                                {(hasKey || keyOptional || serverKey) && (
+                                                    <KeyStatusBadge
+                                                        validation={validations[provider.id]}
+                                                        checking={checkingKeys.has(provider.id)}
+                                                        onCheck={() => handleCheckKey(provider.id)}
+                                                    />
+                                                )}
                                             </div>
                                             <a
                                                 href={PROVIDER_DOCS[provider.id]}
@@ -329,12 +412,32 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                                                 rel="noopener noreferrer"
                                                 className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground hover:text-primary transition-colors flex items-center gap-1.5"
                                             >
-                                                Key Console
+                                                {keyOptional ? 'Setup Guide' : 'Key Console'}
                                                 <ExternalLink className="h-3 w-3" />
                                             </a>
                                         </div>
 
-                                        {isEditing ? (
+                                        {provider.configurableBaseUrl && (
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-semibold text-muted-foreground ml-1">Base URL</label>
+                                                <Input
+                                                    value={baseUrls[provider.id] ?? ''}
+                                                    onChange={(e) => setBaseUrls({ ...baseUrls, [provider.id]: e.target.value })}
+                                                    onBlur={() => handleSaveBaseUrl(provider.id)}
+                                                    placeholder={provider.baseUrl}
+                                                    className="h-10 bg-background/50 border-muted-foreground/20 rounded-xl"
+                                                />
+                                                <p className="text-[10px] text-muted-foreground/70 px-1">
+                                                    The server must allow requests from this origin (e.g. OLLAMA_ORIGINS).
+                                                </p>
+                                            </div>
+                                        )}
+
+                                        {serverKey ? (
+                                            <p className="text-[10px] text-muted-foreground/70 px-1">
+                                                This deployment holds the key for {provider.name}; requests go through its server.
+                                            </p>
+                                        ) : isEditing ? (
                                             <div className="flex gap-2">
                                                 <div className="relative flex-1">
                                                     <Input
@@ -418,6 +521,10 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                             })}
                         </div>
                     </div>
+
+                    <Separator className="opacity-50" />
+
+                    <CustomProvidersSection />
                 </div>
             </DialogContent>
         </Dialog>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Conversation, ProviderId, PROVIDERS, ChatGroup, UserPreferences } from '@/types';
+import { Conversation, ChatGroup, UserPreferences } from '@/types';
 import {
     getConversations,
     deleteConversation,
@@ -11,7 +11,8 @@ import {
     renameGroup,
     toggleGroupCollapse,
     moveConversationToGroup,
-    getPreferences
+    getPreferences,
+    getProvider
 } from '@/lib/storage';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -154,7 +155,7 @@ function SidebarContent({
                         <div className="flex-1 min-w-0 overflow-hidden">
                             <p className="text-sm truncate w-full" title={conv.title}>{conv.title}</p>
                             <p className="text-xs text-muted-foreground truncate w-full">
-                                {PROVIDERS[conv.providerId as ProviderId]?.name || conv.providerId}
+                                {getProvider(conv.providerId)?.name || conv.providerId}
                             </p>
                         </div>
                     )}
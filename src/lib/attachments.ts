@@ -0,0 +1,128 @@
+// Attachment helpers shared by the chat input and provider adapters
+//
+// Attachments are stored as data URLs. Images and PDFs go to providers that accept
+// them natively; text and code files are decoded and inlined into the message
+// so every model can read them. Providers without PDF input get a PDF's extracted text.
+// Images a model generates are stored the same way, on the assistant message.
+import { Attachment, Message, Model, ProviderId } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+
+// Code and config files browsers report with an empty or misleading type (.ts is "video/mp2t")
+export const TEXT_FILE_EXTENSIONS = [
+    'txt', 'md', 'markdown', 'csv', 'tsv', 'log', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'ini', 'env', 'xml',
+    'html', 'htm', 'css', 'scss', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt',
+    'swift', 'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'graphql', 'vue', 'svelte', 'lua', 'r',
+];
+
+const TEXT_MIME_TYPES = /^text\/|^application\/(json|xml|javascript|typescript|x-yaml|yaml|x-sh|sql|graphql|toml)/;
+
+// Providers whose adapters send PDFs as documents rather than dropping them
+const NATIVE_PDF_PROVIDERS: ProviderId[] = ['anthropic', 'gemini'];
+// Gemini takes any other file type (audio, video...) as inline data
+const NATIVE_FILE_PROVIDERS: ProviderId[] = ['gemini'];
+
+function getExtension(name: string): string {
+    const dot = name.lastIndexOf('.');
+    return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+export function isTextAttachment(attachment: Attachment): boolean {
+    return TEXT_MIME_TYPES.test(attachment.mimeType) || TEXT_FILE_EXTENSIONS.includes(getExtension(attachment.name));
+}
+
+export function isPdfAttachment(attachment: Attachment): boolean {
+    return attachment.mimeType === 'application/pdf';
+}
+
+export function supportsNativePdf(providerId: ProviderId, model?: Model): boolean {
+    return !!model?.supportsDocuments && NATIVE_PDF_PROVIDERS.includes(providerId);
+}
+
+// Raw bytes of a data URL (or bare base64 string)
+export function decodeDataUrl(data: string): Uint8Array {
+    const comma = data.indexOf(',');
+    const header = comma >= 0 ? data.slice(0, comma) : ';base64';
+    const payload = comma >= 0 ? data.slice(comma + 1) : data;
+
+    if (!header.endsWith(';base64')) {
+        return new TextEncoder().encode(decodeURIComponent(payload));
+    }
+    return Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+}
+
+export function decodeTextAttachment(attachment: Attachment): string {
+    return new TextDecoder().decode(decodeDataUrl(attachment.data));
+}
+
+// Wrap file contents in a fence longer than any backtick run inside them
+function fenceText(label: string, text: string, language = ''): string {
+    const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${label}\n${fence}${language}\n${text.replace(/\n$/, '')}\n${fence}`;
+}
+
+export function formatTextAttachment(attachment: Attachment): string {
+    return fenceText(`File: ${attachment.name}`, decodeTextAttachment(attachment), getExtension(attachment.name));
+}
+
+function hasExtractedText(attachment: Attachment): boolean {
+    return isPdfAttachment(attachment) && attachment.extractedText !== undefined;
+}
+
+// Rendered pages travel as ordinary image attachments
+function pageImageAttachments(attachment: Attachment): Attachment[] {
+    return (attachment.pageImages ?? []).map((data, index) => ({
+        id: `${attachment.id}-page-${index + 1}`,
+        type: 'image',
+        name: `${attachment.name} (page ${index + 1})`,
+        mimeType: 'image/jpeg',
+        size: data.length,
+        data,
+    }));
+}
+
+// Wrap base64 image bytes returned by a provider
+export function generatedImageAttachment(base64: string, mimeType: string, index: number): Attachment {
+    const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg').replace(/\+.*$/, '') || 'png';
+    return {
+        id: uuidv4(),
+        type: 'image',
+        name: `generated-${index + 1}.${extension}`,
+        mimeType,
+        size: Math.floor(base64.length * 3 / 4),
+        data: `data:${mimeType};base64,${base64}`,
+    };
+}
+
+// Move text attachments into the message content, ahead of what the user typed.
+// With `inlinePdfs`, PDFs are replaced by their extracted text and page images.
+export function inlineTextAttachments(messages: Message[], inlinePdfs = false): Message[] {
+    return messages.map(msg => {
+        const isInlined = (att: Attachment) => isTextAttachment(att) || (inlinePdfs && hasExtractedText(att));
+        const inlined = msg.attachments?.filter(isInlined) ?? [];
+        if (inlined.length === 0) return msg;
+
+        const files = inlined.map(att => isTextAttachment(att)
+            ? formatTextAttachment(att)
+            : fenceText(`File: ${att.name} (text extracted from ${att.pageCount ?? '?'} pages)`, att.extractedText ?? '')
+        ).join('\n\n');
+        const pageImages = inlined.flatMap(att => isTextAttachment(att) ? [] : pageImageAttachments(att));
+
+        return {
+            ...msg,
+            content: msg.content ? `${files}\n\n${msg.content}` : files,
+            attachments: [...(msg.attachments?.filter(att => !isInlined(att)) ?? []), ...pageImages],
+        };
+    });
+}
+
+// Attachments the selected model would never see, so the UI can warn before sending
+export function getDroppedAttachments(attachments: Attachment[], providerId: ProviderId, model?: Model): Attachment[] {
+    return attachments.filter(att => {
+        if (isTextAttachment(att)) return false;
+        if (att.type === 'image') return !model?.supportsImages;
+        // PDFs fall back to extracted text when the model can't read them natively
+        if (isPdfAttachment(att)) return false;
+        return !NATIVE_FILE_PROVIDERS.includes(providerId);
+    });
+}
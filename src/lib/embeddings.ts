@@ -0,0 +1,44 @@
+// Text embeddings
+//
+// embedTexts uses the chosen provider's embeddings API when it has one and is
+// ready to use; otherwise vectors are computed locally with a hashed
+// bag-of-words, so semantic features keep working without any key. Vectors from
+// different models have different sizes and are never comparable with each other.
+import { ApiKeys, EmbeddingResult, ModelRef } from '@/types';
+import { getAdapter, localEmbed } from '@/lib/providers';
+import { isProviderReady, getCachedModels, estimateTokens } from '@/lib/storage';
+import { estimateCost } from '@/lib/pricing';
+
+export async function embedTexts(
+    texts: string[],
+    target: ModelRef | undefined,
+    apiKeys: ApiKeys,
+    signal?: AbortSignal
+): Promise<EmbeddingResult> {
+    const adapter = target && isProviderReady(target.providerId, apiKeys) ? getAdapter(target.providerId) : undefined;
+    if (!target || !adapter?.embed) {
+        return localEmbed(texts);
+    }
+
+    const result = await adapter.embed(texts, target.modelId, apiKeys[target.providerId] ?? '', signal);
+    // Billed like chat input; estimate the tokens when the provider doesn't report them
+    const usage = result.usage ?? {
+        inputTokens: texts.reduce((acc, text) => acc + estimateTokens(text), 0),
+        outputTokens: 0,
+    };
+    const reported = getCachedModels(target.providerId)?.models.find(m => m.id === target.modelId)?.pricing;
+    return { ...result, usage, cost: estimateCost(target.providerId, target.modelId, usage, reported) };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,80 @@
+// In-browser PDF extraction for models that can't take PDFs natively
+//
+// pdf.js is loaded on demand so it stays out of the main bundle. Text is pulled
+// page by page; the first few pages can also be rendered to JPEGs for vision
+// models, which keeps charts and scanned pages readable.
+import { Attachment } from '@/types';
+import { decodeDataUrl } from '@/lib/attachments';
+
+// Rendered pages are stored with the conversation, so keep them few and small
+const MAX_PAGE_IMAGES = 4;
+const PAGE_IMAGE_WIDTH = 1024;
+const PAGE_IMAGE_QUALITY = 0.7;
+
+export interface PdfExtraction {
+    text: string;
+    pageCount: number;
+    pageImages: string[];
+}
+
+async function loadPdfJs() {
+    const pdfjs = await import('pdfjs-dist');
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    }
+    return pdfjs;
+}
+
+export async function extractPdf(attachment: Attachment, renderPages: boolean): Promise<PdfExtraction> {
+    const pdfjs = await loadPdfJs();
+    const doc = await pdfjs.getDocument({ data: decodeDataUrl(attachment.data) }).promise;
+
+    try {
+        const pages: string[] = [];
+        const pageImages: string[] = [];
+
+        for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+            const page = await doc.getPage(pageNumber);
+            const content = await page.getTextContent();
+            const text = content.items
+                .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+                .join('')
+                .trim();
+            pages.push(`--- Page ${pageNumber} ---\n${text || '(no text on this page)'}`);
+
+            if (renderPages && pageImages.length < MAX_PAGE_IMAGES) {
+                const scale = PAGE_IMAGE_WIDTH / page.getViewport({ scale: 1 }).width;
+                const viewport = page.getViewport({ scale });
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.floor(viewport.width);
+                canvas.height = Math.floor(viewport.height);
+                await page.render({ canvas, viewport }).promise;
+                pageImages.push(canvas.toDataURL('image/jpeg', PAGE_IMAGE_QUALITY));
+            }
+            page.cleanup();
+        }
+
+        return { text: pages.join('\n\n'), pageCount: doc.numPages, pageImages };
+    } finally {
+        await doc.destroy();
+    }
+}
+
+// Attach extracted text (and page images) to PDFs that don't have them yet
+export async function preparePdfAttachments(attachments: Attachment[], renderPages: boolean): Promise<Attachment[]> {
+    return Promise.all(attachments.map(async att => {
+        if (att.mimeType !== 'application/pdf' || att.extractedText !== undefined) return att;
+        try {
+            const extraction = await extractPdf(att, renderPages);
+            return {
+                ...att,
+                extractedText: extraction.text,
+                pageCount: extraction.pageCount,
+                ...(extraction.pageImages.length > 0 ? { pageImages: extraction.pageImages } : {}),
+            };
+        } catch (error) {
+            console.error(`Could not extract text from ${att.name}:`, error);
+            return att;
+        }
+    }));
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Message, TokenUsage } from '@/types';
+import { continueUsage } from './pricing';
+import { estimateContextTokens } from './storage';
+
+describe('continueUsage', () => {
+    const prompt: Message = { id: 'u', role: 'user', content: 'Write a story', timestamp: 0 };
+    const reply: TokenUsage = { inputTokens: 100, outputTokens: 50, cachedInputTokens: 40, reasoningTokens: 10 };
+    // The continuation resends the prompt, the cut-off reply and a short request to go on
+    const continuation: TokenUsage = { inputTokens: 165, outputTokens: 30, cachedInputTokens: 150, reasoningTokens: 5 };
+
+    it('keeps the first request\'s input and adds up the outputs', () => {
+        expect(continueUsage(reply, continuation)).toEqual({
+            inputTokens: 100,
+            outputTokens: 80,
+            cachedInputTokens: 40,
+            reasoningTokens: 15,
+            images: undefined,
+        });
+    });
+
+    it('counts the continued reply once in the context', () => {
+        const continued: Message = {
+            id: 'a',
+            role: 'assistant',
+            content: 'Once upon a time...',
+            timestamp: 0,
+            usage: continueUsage(reply, continuation),
+        };
+
+        expect(estimateContextTokens([prompt, continued])).toBe(100 + 50 + 30);
+    });
+});
@@ -0,0 +1,203 @@
+// Pricing registry shared by all providers
+//
+// Prices are per 1M tokens, plus a flat per-image price for image models.
+// Lookups try, in order: a user override, the price the provider itself
+// reported (OpenRouter), an exact model id entry, then pattern entries in
+// list order. When nothing matches, the provider's fallback is used and the
+// price is flagged as a guess.
+import { ProviderId, ModelPrice, PriceSource, TokenUsage, isCustomProviderId } from '@/types';
+import { getPricingOverrides } from '@/lib/storage';
+
+interface PricingEntry {
+    providerId: ProviderId;
+    model: string | RegExp; // Exact model id, or a pattern tested against the lowercased id
+    price: ModelPrice;
+    effectiveFrom?: string; // ISO date; the newest entry already in effect wins
+}
+
+export interface ResolvedPrice {
+    price: ModelPrice;
+    source: PriceSource;
+}
+
+// More specific patterns must come before broader ones of the same family
+const PRICING_ENTRIES: PricingEntry[] = [
+    // OpenAI (exact ids cover snapshots priced unlike the rest of their family)
+    { providerId: 'openai', model: 'gpt-4o-2024-05-13', price: { input: 5.00, output: 15.00 } },
+    { providerId: 'openai', model: 'chatgpt-4o-latest', price: { input: 5.00, output: 15.00 } },
+    { providerId: 'openai', model: /^gpt-5-nano/, price: { input: 0.05, output: 0.40, cachedInput: 0.005 } },
+    { providerId: 'openai', model: /^gpt-5-mini/, price: { input: 0.25, output: 2.00, cachedInput: 0.025 } },
+    { providerId: 'openai', model: /^gpt-5/, price: { input: 1.25, output: 10.00, cachedInput: 0.125 } },
+    { providerId: 'openai', model: /^gpt-4\.1-nano/, price: { input: 0.10, output: 0.40, cachedInput: 0.025 } },
+    { providerId: 'openai', model: /^gpt-4\.1-mini/, price: { input: 0.40, output: 1.60, cachedInput: 0.10 } },
+    { providerId: 'openai', model: /^gpt-4\.1/, price: { input: 2.00, output: 8.00, cachedInput: 0.50 } },
+    { providerId: 'openai', model: /^gpt-4o-mini/, price: { input: 0.15, output: 0.60, cachedInput: 0.075 } },
+    { providerId: 'openai', model: /^(chatgpt-)?gpt-4o/, price: { input: 2.50, output: 10.00, cachedInput: 1.25 } },
+    { providerId: 'openai', model: /^gpt-4-turbo|^gpt-4-\d{4}-preview/, price: { input: 10.00, output: 30.00 } },
+    { providerId: 'openai', model: /^gpt-4(-\d{4})?$/, price: { input: 30.00, output: 60.00 } },
+    { providerId: 'openai', model: /^gpt-3\.5-turbo/, price: { input: 0.50, output: 1.50 } },
+    { providerId: 'openai', model: /^o1-mini/, price: { input: 3.00, output: 12.00, cachedInput: 1.50 } },
+    { providerId: 'openai', model: /^o1/, price: { input: 15.00, output: 60.00, cachedInput: 7.50 } },
+    { providerId: 'openai', model: /^o3-mini/, price: { input: 1.10, output: 4.40, cachedInput: 0.55 } },
+    { providerId: 'openai', model: /^o3/, price: { input: 10.00, output: 40.00, cachedInput: 2.50 } },
+    { providerId: 'openai', model: /^o3/, price: { input: 2.00, output: 8.00, cachedInput: 0.50 }, effectiveFrom: '2025-06-10' },
+    { providerId: 'openai', model: /^o4-mini/, price: { input: 1.10, output: 4.40, cachedInput: 0.275 } },
+    { providerId: 'openai', model: /^gpt-image/, price: { input: 5.00, output: 40.00, cachedInput: 1.25 } },
+    // DALL·E bills per image; these are standard quality, square prices
+    { providerId: 'openai', model: /^dall-e-3/, price: { input: 0, output: 0, perImage: 0.04 } },
+    { providerId: 'openai', model: /^dall-e-2/, price: { input: 0, output: 0, perImage: 0.02 } },
+    { providerId: 'openai', model: /^text-embedding-3-small/, price: { input: 0.02, output: 0 } },
+    { providerId: 'openai', model: /^text-embedding-3-large/, price: { input: 0.13, output: 0 } },
+    { providerId: 'openai', model: /^text-embedding-ada-002/, price: { input: 0.10, output: 0 } },
+
+    // Anthropic (cache reads bill at a tenth of the input price, 5-minute cache writes at 1.25x)
+    { providerId: 'anthropic', model: /claude-opus-4-[5-9]/, price: { input: 5.00, output: 25.00, cachedInput: 0.50, cacheWrite: 6.25 } },
+    { providerId: 'anthropic', model: /claude-(opus-4|3-opus)/, price: { input: 15.00, output: 75.00, cachedInput: 1.50, cacheWrite: 18.75 } },
+    { providerId: 'anthropic', model: /claude-(sonnet-4|3-7-sonnet|3-5-sonnet|3-sonnet)/, price: { input: 3.00, output: 15.00, cachedInput: 0.30, cacheWrite: 3.75 } },
+    { providerId: 'anthropic', model: /claude-haiku-4/, price: { input: 1.00, output: 5.00, cachedInput: 0.10, cacheWrite: 1.25 } },
+    { providerId: 'anthropic', model: /claude-3-5-haiku/, price: { input: 0.80, output: 4.00, cachedInput: 0.08, cacheWrite: 1.00 } },
+    { providerId: 'anthropic', model: /claude-3-haiku/, price: { input: 0.25, output: 1.25, cachedInput: 0.03, cacheWrite: 0.30 } },
+
+    // Google Gemini
+    { providerId: 'gemini', model: /gemini-2\.5-pro/, price: { input: 1.25, output: 10.00, cachedInput: 0.31 } },
+    { providerId: 'gemini', model: /gemini-2\.5-flash-image/, price: { input: 0.30, output: 30.00 } },
+    { providerId: 'gemini', model: /gemini-2\.5-flash-lite/, price: { input: 0.10, output: 0.40, cachedInput: 0.025 } },
+    { providerId: 'gemini', model: /gemini-2\.5-flash/, price: { input: 0.15, output: 0.60, reasoning: 3.50 } },
+    { providerId: 'gemini', model: /gemini-2\.5-flash/, price: { input: 0.30, output: 2.50, cachedInput: 0.075 }, effectiveFrom: '2025-06-17' },
+    { providerId: 'gemini', model: /gemini-2\.0-flash-lite/, price: { input: 0.075, output: 0.30 } },
+    { providerId: 'gemini', model: /gemini-2\.0-flash/, price: { input: 0.10, output: 0.40, cachedInput: 0.025 } },
+    { providerId: 'gemini', model: /gemini-1\.5-pro/, price: { input: 1.25, output: 5.00 } },
+    { providerId: 'gemini', model: /gemini-1\.5-flash/, price: { input: 0.075, output: 0.30 } },
+    { providerId: 'gemini', model: /gemini-1\.0-pro|gemini-pro$/, price: { input: 0.50, output: 1.50 } },
+    { providerId: 'gemini', model: /^gemma/, price: { input: 0, output: 0 } },
+    { providerId: 'gemini', model: /gemini-embedding/, price: { input: 0.15, output: 0 } },
+    { providerId: 'gemini', model: /^(text-)?embedding-/, price: { input: 0, output: 0 } },
+
+    // xAI
+    { providerId: 'xai', model: /grok-2-image/, price: { input: 0, output: 0, perImage: 0.07 } },
+    { providerId: 'xai', model: /grok-4/, price: { input: 3.00, output: 15.00, cachedInput: 0.75 } },
+    { providerId: 'xai', model: /grok-3-mini/, price: { input: 0.30, output: 0.50, cachedInput: 0.075 } },
+    { providerId: 'xai', model: /grok-3/, price: { input: 3.00, output: 15.00, cachedInput: 0.75 } },
+    { providerId: 'xai', model: /grok-2-mini/, price: { input: 0.20, output: 1.00 } },
+    { providerId: 'xai', model: /grok-2/, price: { input: 2.00, output: 10.00 } },
+    { providerId: 'xai', model: /grok-beta/, price: { input: 5.00, output: 15.00 } },
+
+    // Groq
+    { providerId: 'groq', model: /llama-3\.3-70b/, price: { input: 0.59, output: 0.79 } },
+    { providerId: 'groq', model: /llama-3\.1-70b/, price: { input: 0.59, output: 0.79 } },
+    { providerId: 'groq', model: /llama-3\.1-8b/, price: { input: 0.05, output: 0.08 } },
+    { providerId: 'groq', model: /mixtral-8x7b/, price: { input: 0.24, output: 0.24 } },
+    { providerId: 'groq', model: /gemma2-9b/, price: { input: 0.20, output: 0.20 } },
+    { providerId: 'groq', model: /deepseek-r1-distill-llama-70b/, price: { input: 0.75, output: 0.99 } },
+    { providerId: 'groq', model: /qwen3-32b/, price: { input: 0.29, output: 0.59 } },
+    { providerId: 'groq', model: /gpt-oss-120b/, price: { input: 0.15, output: 0.75 } },
+    { providerId: 'groq', model: /gpt-oss-20b/, price: { input: 0.10, output: 0.50 } },
+
+    // Local inference and the mock provider are free
+    { providerId: 'ollama', model: /.*/, price: { input: 0, output: 0 } },
+    { providerId: 'mock', model: /.*/, price: { input: 0, output: 0 } },
+];
+
+// Used when no entry matches; always reported as a guess
+const FALLBACK_PRICES: Partial<Record<ProviderId, ModelPrice>> = {
+    openai: { input: 2.50, output: 10.00 },
+    anthropic: { input: 3.00, output: 15.00, cachedInput: 0.30, cacheWrite: 3.75 },
+    gemini: { input: 0.15, output: 0.60 },
+    xai: { input: 2.00, output: 10.00 },
+    groq: { input: 0.10, output: 0.10 },
+    openrouter: { input: 1.00, output: 2.00 },
+};
+
+export function pricingOverrideKey(providerId: ProviderId, modelId: string): string {
+    return `${providerId}:${modelId}`;
+}
+
+function isInEffect(entry: PricingEntry, at: number): boolean {
+    return !entry.effectiveFrom || Date.parse(entry.effectiveFrom) <= at;
+}
+
+// Among entries for the same model, prefer the most recently effective one
+function newestEntry(entries: PricingEntry[]): PricingEntry | undefined {
+    return entries.reduce<PricingEntry | undefined>((best, entry) => {
+        if (!best) return entry;
+        const bestDate = best.effectiveFrom ? Date.parse(best.effectiveFrom) : 0;
+        const entryDate = entry.effectiveFrom ? Date.parse(entry.effectiveFrom) : 0;
+        return entryDate > bestDate ? entry : best;
+    }, undefined);
+}
+
+function findRegistryEntry(providerId: ProviderId, modelId: string, at: number): PricingEntry | undefined {
+    const candidates = PRICING_ENTRIES.filter(entry => entry.providerId === providerId && isInEffect(entry, at));
+
+    const exact = candidates.filter(entry => entry.model === modelId);
+    if (exact.length > 0) return newestEntry(exact);
+
+    const id = modelId.toLowerCase();
+    const firstMatch = candidates.find(entry => entry.model instanceof RegExp && entry.model.test(id));
+    if (!firstMatch) return undefined;
+    // Dated variants of the same pattern replace each other
+    return newestEntry(candidates.filter(entry => String(entry.model) === String(firstMatch.model)));
+}
+
+// Price for a model; `reported` is what the provider's model list said, if anything
+export function resolveModelPrice(
+    providerId: ProviderId,
+    modelId: string,
+    reported?: ModelPrice,
+    at: number = Date.now()
+): ResolvedPrice {
+    const override = getPricingOverrides()[pricingOverrideKey(providerId, modelId)];
+    if (override) return { price: override, source: 'override' };
+
+    if (reported) return { price: reported, source: 'provider' };
+
+    const entry = findRegistryEntry(providerId, modelId, at);
+    if (entry) return { price: entry.price, source: 'registry' };
+
+    // Custom gateways don't publish prices; assume free until overridden
+    const fallback = isCustomProviderId(providerId) ? undefined : FALLBACK_PRICES[providerId];
+    return { price: fallback ?? { input: 0, output: 0 }, source: 'default' };
+}
+
+export function isPriceGuessed(resolved: ResolvedPrice): boolean {
+    return resolved.source === 'default';
+}
+
+// Cost in dollars. Cache reads, cache writes and reasoning output bill at their own rates when set;
+// generated images add their per-image price.
+export function calculateUsageCost(price: ModelPrice, usage: TokenUsage): number {
+    const cachedInput = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+    const cacheWrite = Math.min(usage.cacheWriteTokens ?? 0, usage.inputTokens - cachedInput);
+    const reasoning = Math.min(usage.reasoningTokens ?? 0, usage.outputTokens);
+
+    const inputCost = (usage.inputTokens - cachedInput - cacheWrite) * price.input
+        + cachedInput * (price.cachedInput ?? price.input)
+        + cacheWrite * (price.cacheWrite ?? price.input);
+    const outputCost = (usage.outputTokens - reasoning) * price.output
+        + reasoning * (price.reasoning ?? price.output);
+
+    return (inputCost + outputCost) / 1_000_000 + (usage.images ?? 0) * (price.perImage ?? 0);
+}
+
+// Usage of a cut-off reply and its continuation, as one message. The continuation's
+// input already repeats the earlier reply, so the earlier input is kept and only the
+// outputs add up; input + output is then the context the finished message occupies.
+// Not for pricing: each request is costed on its own usage.
+export function continueUsage(earlier: TokenUsage, later: TokenUsage): TokenUsage {
+    const sum = (x?: number, y?: number) => (x ?? 0) + (y ?? 0) || undefined;
+    return {
+        ...earlier,
+        outputTokens: earlier.outputTokens + later.outputTokens,
+        reasoningTokens: sum(earlier.reasoningTokens, later.reasoningTokens),
+        images: sum(earlier.images, later.images),
+    };
+}
+
+export function estimateCost(
+    providerId: ProviderId,
+    modelId: string,
+    usage: TokenUsage,
+    reported?: ModelPrice
+): number {
+    return calculateUsageCost(resolveModelPrice(providerId, modelId, reported).price, usage);
+}
@@ -1,41 +1,325 @@
 // Anthropic Claude Provider Adapter
-import { ProviderAdapter, Model, Message, ChatConfig, StreamCallbacks } from '@/types';
-import { calculateCost } from '@/lib/storage';
-
-// Pricing per 1M tokens
-const ANTHROPIC_PRICING: Record<string, { input: number; output: number }> = {
-    'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
-    'claude-3-5-haiku': { input: 1.00, output: 5.00 },
-    'claude-3-opus': { input: 15.00, output: 75.00 },
-    'claude-3-sonnet': { input: 3.00, output: 15.00 },
-    'claude-3-haiku': { input: 0.25, output: 1.25 },
-};
+import { ProviderAdapter, Model, KeyValidation, Message, ChatConfig, StreamCallbacks, ToolCall, TokenUsage, FinishReason, REASONING_BUDGETS } from '@/types';
+import { isTextAttachment, decodeTextAttachment } from '@/lib/attachments';
+import { readSSEJson } from './sse';
+import { providerFetch } from './request';
+import { ProviderError, providerErrorFromResponse, createProviderError } from './errors';
+import { checkKey } from './validate';
+import { proxyRequest } from './proxy';
+
+interface CacheControl {
+    cache_control?: { type: 'ephemeral' };
+}
+
+type AnthropicContentBlock = CacheControl & (
+    | { type: 'text'; text: string }
+    | { type: 'thinking'; thinking: string; signature: string }
+    | { type: 'image' | 'document'; source: { type: 'base64'; media_type: string; data: string } }
+    | { type: 'document'; source: { type: 'text'; media_type: 'text/plain'; data: string }; title?: string }
+    | { type: 'tool_use'; id: string; name: string; input: unknown }
+    | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean }
+);
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+}
+
+interface AnthropicStreamEvent {
+    type: string;
+    index?: number;
+    message?: {
+        usage?: AnthropicUsage;
+    };
+    usage?: AnthropicUsage; // Cumulative output count on message_delta
+    content_block?: {
+        type: string;
+        id?: string;
+        name?: string;
+    };
+    delta?: {
+        type?: string;
+        text?: string;
+        partial_json?: string;
+        thinking?: string;
+        signature?: string;
+        stop_reason?: string | null; // On message_delta
+    };
+    error?: {
+        type: string;
+        message: string;
+    };
+}
 
-// Anthropic doesn't have a models endpoint, so we hardcode available models
+// Known models: metadata merged into what /v1/models returns, and the whole list when it can't be fetched
 const ANTHROPIC_MODELS: Model[] = [
-    { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', providerId: 'anthropic', contextLength: 200000, pricing: { input: 3.00, output: 15.00 }, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Next generation flagship model' },
-    { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', providerId: 'anthropic', contextLength: 200000, pricing: { input: 3.00, output: 15.00 }, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Best balance of speed and intelligence' },
-    { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', providerId: 'anthropic', contextLength: 200000, pricing: { input: 1.00, output: 5.00 }, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Fastest and most efficient model' },
-    { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', providerId: 'anthropic', contextLength: 200000, pricing: { input: 15.00, output: 75.00 }, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Powerful model for highly complex tasks' },
-    { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', providerId: 'anthropic', contextLength: 200000, pricing: { input: 3.00, output: 15.00 }, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Balance of intelligence and speed' },
-    { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', providerId: 'anthropic', contextLength: 200000, pricing: { input: 0.25, output: 1.25 }, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Near-instant responsiveness' },
+    { id: 'claude-opus-4-5-20251101', name: 'Claude Opus 4.5', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, supportsReasoning: true, description: 'Most intelligent model for complex agents and coding' },
+    { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, supportsReasoning: true, description: 'Best model for agents and coding' },
+    { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, supportsReasoning: true, description: 'Fastest model with near-frontier intelligence' },
+    { id: 'claude-opus-4-1-20250805', name: 'Claude Opus 4.1', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, supportsReasoning: true, description: 'Exceptional model for specialized complex tasks' },
+    { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, supportsReasoning: true, description: 'Previous flagship model' },
+    { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, supportsReasoning: true, description: 'Next generation flagship model' },
+    { id: 'claude-3-7-sonnet-20250219', name: 'Claude Sonnet 3.7', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, supportsReasoning: true, description: 'First model with extended thinking' },
+    { id: 'claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Best balance of speed and intelligence' },
+    { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Fastest and most efficient model' },
+    { id: 'claude-3-opus-20240229', name: 'Claude 3 Opus', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Powerful model for highly complex tasks' },
+    { id: 'claude-3-sonnet-20240229', name: 'Claude 3 Sonnet', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Balance of intelligence and speed' },
+    { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', providerId: 'anthropic', contextLength: 200000, supportsImages: true, supportsDocuments: true, supportsCode: true, supportsFunctionCalling: true, description: 'Near-instant responsiveness' },
 ];
 
-function getModelPricing(modelId: string): { input: number; output: number } {
-    for (const [key, pricing] of Object.entries(ANTHROPIC_PRICING)) {
-        if (modelId.toLowerCase().includes(key.replace('claude-', ''))) {
-            return pricing;
-        }
+// True when fetchModels could not reach /v1/models and returned the built-in list
+export function isAnthropicFallbackModelList(models: Model[]): boolean {
+    return models === ANTHROPIC_MODELS;
+}
+
+function parseToolInput(args: string): unknown {
+    try {
+        return JSON.parse(args || '{}');
+    } catch {
+        return {};
     }
-    return { input: 3.00, output: 15.00 }; // Default to Sonnet pricing
+}
+
+function toFinishReason(stopReason: string): FinishReason {
+    switch (stopReason) {
+        case 'end_turn':
+        case 'stop_sequence':
+            return 'stop';
+        case 'max_tokens':
+            return 'length';
+        case 'tool_use':
+            return 'tool_calls';
+        case 'refusal':
+            return 'content_filter';
+        default:
+            return 'other';
+    }
+}
+
+// Extended thinking is available from Claude 3.7 Sonnet onwards
+function supportsThinking(modelId: string): boolean {
+    return /claude-3-7|claude-(sonnet|opus|haiku)-[4-9]/.test(modelId);
+}
+
+interface AnthropicModelInfo {
+    id: string;
+    display_name?: string;
+}
+
+// Models missing from the local table get what every current Claude model supports
+function toModel(info: AnthropicModelInfo): Model {
+    const known = ANTHROPIC_MODELS.find(m => m.id === info.id);
+    return {
+        contextLength: 200000,
+        supportsImages: true,
+        supportsDocuments: true,
+        supportsCode: true,
+        supportsFunctionCalling: true,
+        supportsReasoning: supportsThinking(info.id),
+        description: 'Claude model',
+        ...known,
+        id: info.id,
+        name: info.display_name || known?.name || info.id,
+        providerId: 'anthropic',
+    };
+}
+
+// Thinking is opt-in with Anthropic, so 'auto' leaves it off
+function getThinkingBudget(config: ChatConfig): number | undefined {
+    const effort = config.reasoningEffort;
+    if (!supportsThinking(config.model) || !effort || effort === 'auto' || effort === 'off') {
+        return undefined;
+    }
+    return REASONING_BUDGETS[effort];
+}
+
+// Anthropic allows at most four cache breakpoints per request
+const MAX_CACHE_BREAKPOINTS = 4;
+// Base64 length above which an attachment is worth its own breakpoint (~48KB of file data)
+const LARGE_ATTACHMENT_CHARS = 64_000;
+
+function isLargeAttachment(block: AnthropicContentBlock): boolean {
+    return (block.type === 'image' || block.type === 'document') && block.source.data.length >= LARGE_ATTACHMENT_CHARS;
+}
+
+// Mark the stable prefix of the request for caching. A breakpoint caches everything
+// before it (tools, system prompt, earlier turns), so the system prompt, the newest
+// large attachments and the end of the conversation are marked; the next turn then
+// reads all of that from cache instead of paying for it again.
+function applyCacheBreakpoints(system: AnthropicContentBlock[], messages: AnthropicMessage[]): void {
+    let remaining = MAX_CACHE_BREAKPOINTS;
+    const mark = (block: AnthropicContentBlock) => {
+        if (remaining > 0 && !block.cache_control) {
+            block.cache_control = { type: 'ephemeral' };
+            remaining--;
+        }
+    };
+
+    if (system.length > 0) mark(system[system.length - 1]);
+
+    const blocks = messages.map(msg => {
+        if (typeof msg.content === 'string') {
+            msg.content = [{ type: 'text', text: msg.content }];
+        }
+        return msg.content;
+    });
+
+    // Always keep one breakpoint for the end of the conversation
+    const last = blocks[blocks.length - 1];
+    const lastBlock = last?.[last.length - 1];
+    const attachments = blocks.flat().filter(isLargeAttachment).reverse();
+    attachments.slice(0, Math.max(0, remaining - (lastBlock ? 1 : 0))).forEach(mark);
+    if (lastBlock) mark(lastBlock);
+}
+
+function toAnthropicMessages(messages: Message[], includeThinking = false): AnthropicMessage[] {
+    const result: AnthropicMessage[] = [];
+
+    messages
+        .filter(m => m.role !== 'system')
+        .forEach(msg => {
+            if (msg.role === 'tool') {
+                const block: AnthropicContentBlock = {
+                    type: 'tool_result',
+                    tool_use_id: msg.toolCallId || '',
+                    content: msg.content,
+                    ...(msg.toolError ? { is_error: true } : {}),
+                };
+                // Results of parallel tool calls must share a single user turn
+                const previous = result[result.length - 1];
+                if (previous?.role === 'user' && Array.isArray(previous.content) &&
+                    previous.content.every(b => b.type === 'tool_result')) {
+                    previous.content.push(block);
+                } else {
+                    result.push({ role: 'user', content: [block] });
+                }
+                return;
+            }
+
+            if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+                const content: AnthropicContentBlock[] = [];
+                // With thinking on, the signed thinking block has to precede the tool use
+                if (includeThinking && msg.reasoning && msg.reasoningSignature) {
+                    content.push({ type: 'thinking', thinking: msg.reasoning, signature: msg.reasoningSignature });
+                }
+                if (msg.content) {
+                    content.push({ type: 'text', text: msg.content });
+                }
+                msg.toolCalls.forEach(call => {
+                    content.push({ type: 'tool_use', id: call.id, name: call.name, input: parseToolInput(call.arguments) });
+                });
+                result.push({ role: 'assistant', content });
+                return;
+            }
+
+            const role = msg.role === 'assistant' ? 'assistant' : 'user';
+
+            // Assistant turns can't hold images, so generated ones are left out
+            if (role === 'user' && msg.attachments && msg.attachments.length > 0) {
+                const content: AnthropicContentBlock[] = [];
+
+                // Add attachments first (recommended for best performance)
+                msg.attachments.forEach(att => {
+                    if (att.type === 'image') {
+                        const parts_base64 = att.data.split(',');
+                        const data = parts_base64.length > 1 ? parts_base64[1] : parts_base64[0];
+                        const header = parts_base64.length > 1 ? parts_base64[0] : '';
+                        const mimeType = header.match(/:(.*?);/)?.[1] || att.mimeType;
+
+                        content.push({
+                            type: 'image',
+                            source: {
+                                type: 'base64',
+                                media_type: mimeType,
+                                data: data
+                            }
+                        });
+                    } else if (isTextAttachment(att)) {
+                        // Plain-text documents keep the file name as their title
+                        content.push({
+                            type: 'document',
+                            source: {
+                                type: 'text',
+                                media_type: 'text/plain',
+                                data: decodeTextAttachment(att)
+                            },
+                            title: att.name
+                        });
+                    } else if (att.mimeType === 'application/pdf') {
+                        const parts_base64 = att.data.split(',');
+                        const data = parts_base64.length > 1 ? parts_base64[1] : parts_base64[0];
+
+                        content.push({
+                            type: 'document',
+                            source: {
+                                type: 'base64',
+                                media_type: 'application/pdf',
+                                data: data
+                            }
+                        });
+                    }
+                });
+
+                // Add text block last
+                if (msg.content) {
+                    content.push({ type: 'text', text: msg.content });
+                }
+
+                result.push({ role, content });
+                return;
+            }
+
+            result.push({ role, content: msg.content });
+        });
+
+    return result;
 }
 
 export const anthropicAdapter: ProviderAdapter = {
     providerId: 'anthropic',
 
-    async fetchModels(): Promise<Model[]> {
-        // Anthropic doesn't have a public models endpoint
-        return ANTHROPIC_MODELS;
+    // Newest first, as the API returns them; the local table only stands in when the request fails
+    async fetchModels(apiKey: string): Promise<Model[]> {
+        try {
+            const response = await providerFetch('anthropic', 'https://api.anthropic.com/v1/models?limit=1000', {
+                headers: {
+                    'x-api-key': apiKey,
+                    'anthropic-version': '2023-06-01',
+                    'anthropic-dangerous-direct-browser-access': 'true',
+                },
+            });
+
+            if (!response.ok) {
+                throw await providerErrorFromResponse('anthropic', response);
+            }
+
+            const data: { data?: AnthropicModelInfo[] } = await response.json();
+            if (!data.data?.length) return ANTHROPIC_MODELS;
+            return data.data.map(toModel);
+        } catch (error) {
+            // A bad key has to surface; anything else still leaves the built-in list usable
+            if (error instanceof ProviderError && error.kind === 'auth') throw error;
+            console.warn('Falling back to the built-in Anthropic model list:', error);
+            return ANTHROPIC_MODELS;
+        }
+    },
+
+    // The models list is the cheapest authenticated endpoint; chat requests never go through it
+    validateKey(apiKey: string): Promise<KeyValidation> {
+        return checkKey('anthropic', () => fetch(...proxyRequest('anthropic', 'https://api.anthropic.com/v1/models?limit=1', {
+            headers: {
+                'x-api-key': apiKey,
+                'anthropic-version': '2023-06-01',
+                'anthropic-dangerous-direct-browser-access': 'true',
+            },
+        })));
     },
 
     async streamChat(
@@ -46,55 +330,13 @@ export const anthropicAdapter: ProviderAdapter = {
         signal?: AbortSignal
     ): Promise<void> {
         const systemMessage = messages.find(m => m.role === 'system');
-        const chatMessages = messages
-            .filter(m => m.role !== 'system')
-            .map(msg => {
-                if (msg.attachments && msg.attachments.length > 0) {
-                    const content: any[] = [];
-
-                    // Add attachments first (recommended for best performance)
-                    msg.attachments.forEach(att => {
-                        if (att.type === 'image') {
-                            const parts_base64 = att.data.split(',');
-                            const data = parts_base64.length > 1 ? parts_base64[1] : parts_base64[0];
-                            const header = parts_base64.length > 1 ? parts_base64[0] : '';
-                            const mimeType = header.match(/:(.*?);/)?.[1] || att.mimeType;
-
-                            content.push({
-                                type: 'image',
-                                source: {
-                                    type: 'base64',
-                                    media_type: mimeType,
-                                    data: data
-                                }
-                            });
-                        } else if (att.mimeType === 'application/pdf') {
-                            const parts_base64 = att.data.split(',');
-                            const data = parts_base64.length > 1 ? parts_base64[1] : parts_base64[0];
-
-                            content.push({
-                                type: 'document',
-                                source: {
-                                    type: 'base64',
-                                    media_type: 'application/pdf',
-                                    data: data
-                                }
-                            });
-                        }
-                    });
+        const thinkingBudget = getThinkingBudget(config);
+        const chatMessages = toAnthropicMessages(messages, thinkingBudget !== undefined);
+        const system: AnthropicContentBlock[] = systemMessage ? [{ type: 'text', text: systemMessage.content }] : [];
 
-                    // Add text block last
-                    if (msg.content) {
-                        content.push({ type: 'text', text: msg.content });
-                    }
-
-                    return { role: msg.role, content };
-                }
-                return {
-                    role: msg.role,
-                    content: msg.content,
-                };
-            });
+        if (config.promptCaching) {
+            applyCacheBreakpoints(system, chatMessages);
+        }
 
         const requestBody: Record<string, unknown> = {
             model: config.model,
@@ -103,12 +345,31 @@ export const anthropicAdapter: ProviderAdapter = {
             stream: true,
         };
 
-        if (systemMessage) {
-            requestBody.system = systemMessage.content;
+        if (system.length > 0) {
+            requestBody.system = system;
+        }
+
+        if (thinkingBudget !== undefined) {
+            // The budget counts towards max_tokens, and thinking requires the default sampling
+            requestBody.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+            requestBody.max_tokens = thinkingBudget + (config.maxTokens ?? 8192);
+        } else {
+            if (config.temperature !== undefined) requestBody.temperature = config.temperature;
+            if (config.topP !== undefined) requestBody.top_p = config.topP;
+            if (config.topK !== undefined) requestBody.top_k = config.topK;
         }
 
-        if (config.temperature !== undefined) {
-            requestBody.temperature = config.temperature;
+        // Anthropic has no penalties or seed
+        if (config.stopSequences?.length) {
+            requestBody.stop_sequences = config.stopSequences;
+        }
+
+        if (config.tools?.length) {
+            requestBody.tools = config.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+            }));
         }
 
         const hasPdf = messages.some(m => m.attachments?.some(a => a.mimeType === 'application/pdf'));
@@ -123,56 +384,87 @@ export const anthropicAdapter: ProviderAdapter = {
             headers['anthropic-beta'] = 'pdfs-2024-09-25';
         }
 
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
+        const response = await providerFetch('anthropic', 'https://api.anthropic.com/v1/messages', {
             method: 'POST',
             headers,
             body: JSON.stringify(requestBody),
             signal,
-        });
+        }, callbacks.onRetry);
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`Anthropic API error: ${error}`);
+            throw await providerErrorFromResponse('anthropic', response);
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) {
-            throw new Error('No response body');
-        }
-
-        const decoder = new TextDecoder();
         let fullResponse = '';
+        // tool_use blocks stream their input as JSON fragments, keyed by block index
+        const toolCalls = new Map<number, ToolCall>();
+        let usage: TokenUsage | undefined;
+        let reasoningSignature: string | undefined;
+        let finishReason: FinishReason | undefined;
 
         try {
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const jsonStr = line.slice(6);
-                        if (jsonStr.trim() === '[DONE]') continue;
-
-                        try {
-                            const data = JSON.parse(jsonStr);
-
-                            if (data.type === 'content_block_delta') {
-                                const text = data.delta?.text;
-                                if (text) {
-                                    fullResponse += text;
-                                    callbacks.onToken(text);
-                                }
-                            }
-                        } catch {
-                            // Skip invalid JSON
-                        }
+            for await (const { event, data } of readSSEJson<AnthropicStreamEvent>(response)) {
+                if (event === 'error' || data.type === 'error') {
+                    throw createProviderError('anthropic', JSON.stringify(data));
+                }
+
+                // Input is reported once up front; output keeps growing on message_delta
+                if (data.type === 'message_start' && data.message?.usage) {
+                    const reported = data.message.usage;
+                    const cacheRead = reported.cache_read_input_tokens ?? 0;
+                    const cacheWrite = reported.cache_creation_input_tokens ?? 0;
+                    usage = {
+                        inputTokens: (reported.input_tokens ?? 0) + cacheWrite + cacheRead,
+                        outputTokens: reported.output_tokens ?? 0,
+                        cachedInputTokens: cacheRead || undefined,
+                        cacheWriteTokens: cacheWrite || undefined,
+                    };
+                }
+
+                if (data.type === 'message_delta' && usage && data.usage?.output_tokens !== undefined) {
+                    usage.outputTokens = data.usage.output_tokens;
+                }
+
+                if (data.type === 'message_delta' && data.delta?.stop_reason) {
+                    finishReason = toFinishReason(data.delta.stop_reason);
+                }
+
+                if (data.type === 'content_block_start' && data.content_block?.type === 'tool_use') {
+                    toolCalls.set(data.index ?? toolCalls.size, {
+                        id: data.content_block.id || '',
+                        name: data.content_block.name || '',
+                        arguments: '',
+                    });
+                }
+
+                if (data.type === 'content_block_delta') {
+                    if (data.delta?.type === 'input_json_delta') {
+                        const call = toolCalls.get(data.index ?? -1);
+                        if (call) call.arguments += data.delta.partial_json ?? '';
+                        continue;
+                    }
+
+                    if (data.delta?.type === 'thinking_delta') {
+                        if (data.delta.thinking) callbacks.onReasoning?.(data.delta.thinking);
+                        continue;
+                    }
+
+                    if (data.delta?.type === 'signature_delta') {
+                        reasoningSignature = (reasoningSignature ?? '') + (data.delta.signature ?? '');
+                        continue;
+                    }
+
+                    const text = data.delta?.text;
+                    if (text) {
+                        fullResponse += text;
+                        callbacks.onToken(text);
                     }
                 }
             }
-            callbacks.onComplete(fullResponse);
+            toolCalls.forEach(call => {
+                callbacks.onToolCall?.({ ...call, arguments: call.arguments || '{}' });
+            });
+            callbacks.onComplete(fullResponse, { usage, reasoningSignature, finishReason });
         } catch (error) {
             if (error instanceof Error && error.name === 'AbortError') {
                 callbacks.onComplete(fullResponse);
@@ -181,9 +473,4 @@ export const anthropicAdapter: ProviderAdapter = {
             }
         }
     },
-
-    estimateCost(inputTokens: number, outputTokens: number, modelId: string): number {
-        const pricing = getModelPricing(modelId);
-        return calculateCost(inputTokens, outputTokens, pricing.input, pricing.output);
-    },
 };
@@ -0,0 +1,59 @@
+// Web search citations shared by provider adapters
+//
+// Providers report sources in different shapes; adapters feed them to a
+// CitationCollector, which numbers them in order of first use and, where the
+// provider says which part of the answer a source backs, inserts [n] markers
+// into the final text. The chat UI turns those markers into links.
+import { Citation } from '@/types';
+
+interface Marker {
+    end: number; // Character offset in the response text
+    numbers: number[];
+}
+
+export class CitationCollector {
+    private citations: Citation[] = [];
+    private markers: Marker[] = [];
+
+    // Returns the source's 1-based number; the same URL always gets the same one
+    add(citation: Citation, end?: number): number {
+        let index = this.citations.findIndex(c => c.url === citation.url);
+        if (index < 0) {
+            index = this.citations.push(citation) - 1;
+        } else if (!this.citations[index].title && citation.title) {
+            this.citations[index] = citation;
+        }
+
+        const number = index + 1;
+        if (end !== undefined) {
+            const marker = this.markers.find(m => m.end === end);
+            if (!marker) {
+                this.markers.push({ end, numbers: [number] });
+            } else if (!marker.numbers.includes(number)) {
+                marker.numbers.push(number);
+            }
+        }
+        return number;
+    }
+
+    // The text with markers inserted, and the sources; undefined when nothing was cited
+    apply(text: string): { text: string; citations?: Citation[] } {
+        if (this.citations.length === 0) return { text };
+
+        let result = text;
+        [...this.markers]
+            .filter(marker => marker.end >= 0 && marker.end <= text.length)
+            .sort((a, b) => b.end - a.end)
+            .forEach(marker => {
+                const label = [...marker.numbers].sort((a, b) => a - b).map(n => `[${n}]`).join('');
+                result = result.slice(0, marker.end) + label + result.slice(marker.end);
+            });
+        return { text: result, citations: this.citations };
+    }
+}
+
+// Gemini reports segment offsets in UTF-8 bytes rather than characters
+export function utf8OffsetToIndex(text: string, byteOffset: number): number {
+    const bytes = new TextEncoder().encode(text);
+    return new TextDecoder().decode(bytes.slice(0, byteOffset)).length;
+}
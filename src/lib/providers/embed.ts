@@ -0,0 +1,68 @@
+// Embedding helpers shared by provider adapters, plus the local fallback
+import { EmbeddingResult } from '@/types';
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashed-bow';
+export const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+interface EmbeddingBatch {
+    embeddings: number[][];
+    inputTokens?: number;
+}
+
+// Batches run one after another so a large input doesn't trip rate limits
+export async function embedInBatches(
+    texts: string[],
+    model: string,
+    batchSize: number,
+    embedBatch: (batch: string[]) => Promise<EmbeddingBatch>
+): Promise<EmbeddingResult> {
+    const embeddings: number[][] = [];
+    let inputTokens: number | undefined;
+
+    for (let i = 0; i < texts.length; i += batchSize) {
+        const batch = await embedBatch(texts.slice(i, i + batchSize));
+        embeddings.push(...batch.embeddings);
+        if (batch.inputTokens !== undefined) {
+            inputTokens = (inputTokens ?? 0) + batch.inputTokens;
+        }
+    }
+
+    return {
+        embeddings,
+        model,
+        usage: inputTokens !== undefined ? { inputTokens, outputTokens: 0 } : undefined,
+    };
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// FNV-1a; stable across sessions so stored vectors stay comparable
+function hashToken(token: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+        hash ^= token.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+    const length = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0));
+    return length > 0 ? vector.map(v => v / length) : vector;
+}
+
+// Hashed bag-of-words: only captures word overlap, but needs no key and costs nothing
+export function localEmbed(texts: string[], dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): EmbeddingResult {
+    const embeddings = texts.map(text => {
+        const vector = new Array<number>(dimensions).fill(0);
+        tokenize(text).forEach(token => {
+            const hash = hashToken(token);
+            // The top bit picks the sign so hash collisions tend to cancel out
+            vector[hash % dimensions] += hash >>> 31 ? -1 : 1;
+        });
+        return normalize(vector);
+    });
+    return { embeddings, model: LOCAL_EMBEDDING_MODEL, cost: 0 };
+}
@@ -0,0 +1,136 @@
+// Normalized errors raised by provider adapters
+//
+// Every provider words its failures differently, so adapters turn HTTP and
+// in-stream errors into a ProviderError with a `kind` the UI can react to.
+import { ProviderId } from '@/types';
+import { getProvider } from '@/lib/storage';
+
+export type ProviderErrorKind =
+    | 'auth'
+    | 'rate_limit'
+    | 'quota'
+    | 'context_length'
+    | 'content_filter'
+    | 'unsupported_feature'
+    | 'model_not_found'
+    | 'network'
+    | 'server'
+    | 'unknown';
+
+// Which request feature was rejected, when the provider says so
+export type UnsupportedFeature = 'system_prompt' | 'tools' | 'images' | 'documents';
+
+interface ProviderErrorOptions {
+    providerId: ProviderId;
+    kind: ProviderErrorKind;
+    status?: number;
+    body?: string;
+    feature?: UnsupportedFeature;
+}
+
+export class ProviderError extends Error {
+    readonly providerId: ProviderId;
+    readonly kind: ProviderErrorKind;
+    readonly status?: number;
+    readonly body?: string; // Raw response or stream error payload
+    readonly feature?: UnsupportedFeature;
+
+    constructor(message: string, options: ProviderErrorOptions) {
+        super(message);
+        this.name = 'ProviderError';
+        this.providerId = options.providerId;
+        this.kind = options.kind;
+        this.status = options.status;
+        this.body = options.body;
+        this.feature = options.feature;
+    }
+}
+
+// Ordered: the first matching rule wins, so specific phrases come before broad ones
+const KIND_PATTERNS: [ProviderErrorKind, RegExp][] = [
+    ['context_length', /context[_ ]length|context window|prompt is too long|too many tokens|maximum context|input token count|request too large/],
+    ['quota', /insufficient_quota|quota|billing|credit balance|payment required|out of credits/],
+    ['auth', /authentication_error|permission_error|invalid[_ ]api[_ ]key|api key not valid|incorrect api key|unauthorized|invalid x-api-key|api_key_invalid/],
+    ['rate_limit', /rate_limit|rate limit|too many requests/],
+    ['content_filter', /content_filter|content policy|safety|flagged|moderation/],
+    ['model_not_found', /model_not_found|not_found_error|model .*(not found|does not exist)|no such model|unknown model|is not found for api version/],
+    ['unsupported_feature', /not supported|does not support|unsupported|not enabled/],
+    ['server', /overloaded|internal server error|api_error|service unavailable|bad gateway/],
+];
+
+const FEATURE_PATTERNS: [UnsupportedFeature, RegExp][] = [
+    ['system_prompt', /developer instruction|system instruction|system prompt|system message|system role/],
+    ['tools', /tool|function call/],
+    ['images', /image|vision/],
+    ['documents', /pdf|document|file/],
+];
+
+export function classifyProviderError(status: number | undefined, body: string): ProviderErrorKind {
+    const text = body.toLowerCase();
+    const matched = KIND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+    // Body wording beats the status code, which providers use inconsistently
+    if (matched) return matched;
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 402) return 'quota';
+    if (status === 404) return 'model_not_found';
+    if (status === 413) return 'context_length';
+    if (status === 429) return 'rate_limit';
+    if (status !== undefined && status >= 500) return 'server';
+    return 'unknown';
+}
+
+function detectFeature(body: string): UnsupportedFeature | undefined {
+    const text = body.toLowerCase();
+    return FEATURE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+// Pull the human-readable message out of a JSON error payload
+function extractMessage(body: string): string {
+    try {
+        const parsed = JSON.parse(body);
+        const payload = Array.isArray(parsed) ? parsed[0] : parsed;
+        const message = payload?.error?.message ?? payload?.message ?? payload?.error ?? payload?.detail;
+        if (typeof message === 'string' && message) return message;
+    } catch {
+        // Not JSON; fall through to the raw text
+    }
+    return body.trim() || 'Unknown error';
+}
+
+function providerName(providerId: ProviderId): string {
+    return getProvider(providerId)?.name ?? providerId;
+}
+
+// Build an error from an API error payload (HTTP body or in-stream error event)
+export function createProviderError(providerId: ProviderId, body: string, status?: number): ProviderError {
+    const kind = classifyProviderError(status, body);
+    const statusLabel = status !== undefined ? ` (${status})` : '';
+    return new ProviderError(`${providerName(providerId)} API error${statusLabel}: ${extractMessage(body)}`, {
+        providerId,
+        kind,
+        status,
+        body,
+        feature: kind === 'unsupported_feature' ? detectFeature(body) : undefined,
+    });
+}
+
+// Build an error from a failed (non-ok) response, consuming its body
+export async function providerErrorFromResponse(providerId: ProviderId, response: Response): Promise<ProviderError> {
+    let body = '';
+    try {
+        body = await response.text();
+    } catch {
+        // Body already consumed or connection dropped; classify from the status alone
+    }
+    return createProviderError(providerId, body || response.statusText, response.status);
+}
+
+// The request never reached the provider (offline, DNS, CORS, refused connection)
+export function createNetworkError(providerId: ProviderId, cause?: unknown): ProviderError {
+    const detail = cause instanceof Error ? cause.message : 'Network request failed';
+    return new ProviderError(`Could not reach ${providerName(providerId)}: ${detail}`, {
+        providerId,
+        kind: 'network',
+    });
+}
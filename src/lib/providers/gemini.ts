@@ -1,49 +1,220 @@
 // Google Gemini Provider Adapter
-import { ProviderAdapter, Model, Message, ChatConfig, StreamCallbacks } from '@/types';
-import { calculateCost, estimateTokens } from '@/lib/storage';
-
-// Pricing per 1M tokens (approximate, as of early 2025)
-const GEMINI_PRICING: Record<string, { input: number; output: number }> = {
-    'gemini-2.5-pro': { input: 1.25, output: 10.00 },
-    'gemini-2.5-flash': { input: 0.15, output: 0.60 },
-    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
-    'gemini-1.5-pro': { input: 1.25, output: 5.00 },
-    'gemini-1.5-flash': { input: 0.075, output: 0.30 },
-    'gemini-1.0-pro': { input: 0.50, output: 1.50 },
-};
+import { ProviderAdapter, Model, KeyValidation, Message, ChatConfig, StreamCallbacks, TokenUsage, FinishReason, EmbeddingResult, REASONING_BUDGETS } from '@/types';
+import { inlineTextAttachments, generatedImageAttachment } from '@/lib/attachments';
+import { readSSEJson } from './sse';
+import { providerFetch } from './request';
+import { providerErrorFromResponse, createProviderError } from './errors';
+import { checkKey } from './validate';
+import { proxyRequest } from './proxy';
+import { embedInBatches } from './embed';
+import { CitationCollector, utf8OffsetToIndex } from './citations';
 
-function getModelPricing(modelId: string): { input: number; output: number } {
-    // Find matching pricing by checking if model ID contains the key
-    for (const [key, pricing] of Object.entries(GEMINI_PRICING)) {
-        if (modelId.toLowerCase().includes(key.toLowerCase().replace('gemini-', ''))) {
-            return pricing;
-        }
+type GeminiPart =
+    | { text: string }
+    | { inline_data: { mime_type: string; data: string } }
+    | { functionCall: { name: string; args: unknown } }
+    | { functionResponse: { name: string; response: { content: string; error?: boolean } } };
+
+interface GeminiContent {
+    role: 'user' | 'model';
+    parts: GeminiPart[];
+}
+
+interface GeminiStreamChunk {
+    candidates?: {
+        content?: {
+            parts?: {
+                text?: string;
+                thought?: boolean; // Thought summary rather than answer text
+                functionCall?: { name: string; args?: Record<string, unknown> };
+                inlineData?: { mimeType: string; data: string }; // Image output
+            }[];
+        };
+        finishReason?: string;
+        groundingMetadata?: GeminiGroundingMetadata;
+    }[];
+    promptFeedback?: {
+        blockReason?: string;
+    };
+    // Sent with every chunk; the last one holds the final counts
+    usageMetadata?: {
+        promptTokenCount?: number;
+        candidatesTokenCount?: number;
+        cachedContentTokenCount?: number;
+        thoughtsTokenCount?: number;
+    };
+}
+
+// Google Search grounding: the sources, and which answer segments each backs
+interface GeminiGroundingMetadata {
+    groundingChunks?: { web?: { uri: string; title?: string } }[];
+    groundingSupports?: {
+        segment?: { endIndex?: number }; // UTF-8 byte offset into the answer text
+        groundingChunkIndices?: number[];
+    }[];
+}
+
+interface GeminiModel {
+    name: string;
+    displayName: string;
+    inputTokenLimit?: number;
+    supportedGenerationMethods?: string[];
+}
+
+// batchEmbedContents takes at most 100 requests
+const EMBEDDING_BATCH_SIZE = 100;
+
+function toGeminiContents(messages: Message[]): GeminiContent[] {
+    const contents: GeminiContent[] = [];
+
+    inlineTextAttachments(messages)
+        .filter(m => m.role !== 'system')
+        .forEach(msg => {
+            if (msg.role === 'tool') {
+                const part: GeminiPart = {
+                    functionResponse: {
+                        name: msg.toolName || '',
+                        response: { content: msg.content, ...(msg.toolError ? { error: true } : {}) },
+                    },
+                };
+                // Responses to parallel function calls go back in a single turn
+                const previous = contents[contents.length - 1];
+                if (previous?.role === 'user' && previous.parts.every(p => 'functionResponse' in p)) {
+                    previous.parts.push(part);
+                } else {
+                    contents.push({ role: 'user', parts: [part] });
+                }
+                return;
+            }
+
+            const parts: GeminiPart[] = [];
+
+            // Add attachments first (recommended for Gemini)
+            if (msg.attachments && msg.attachments.length > 0) {
+                msg.attachments.forEach(att => {
+                    const parts_base64 = att.data.split(',');
+                    const data = parts_base64.length > 1 ? parts_base64[1] : parts_base64[0];
+                    const header = parts_base64.length > 1 ? parts_base64[0] : '';
+                    const mimeType = header.match(/:(.*?);/)?.[1] || att.mimeType;
+
+                    parts.push({
+                        inline_data: {
+                            mime_type: mimeType,
+                            data: data
+                        }
+                    });
+                });
+            }
+
+            // Add text part if it exists and is not empty
+            if (msg.content && msg.content.trim().length > 0) {
+                parts.push({ text: msg.content });
+            }
+
+            msg.toolCalls?.forEach(call => {
+                let args: unknown = {};
+                try {
+                    args = JSON.parse(call.arguments || '{}');
+                } catch {
+                    // Keep empty args if the model produced invalid JSON
+                }
+                parts.push({ functionCall: { name: call.name, args } });
+            });
+
+            contents.push({
+                role: msg.role === 'user' ? 'user' : 'model',
+                parts
+            });
+        });
+
+    return contents;
+}
+
+function toFinishReason(reason: string): FinishReason {
+    switch (reason) {
+        case 'STOP':
+            return 'stop';
+        case 'MAX_TOKENS':
+            return 'length';
+        case 'SAFETY':
+        case 'RECITATION':
+        case 'BLOCKLIST':
+        case 'PROHIBITED_CONTENT':
+        case 'SPII':
+            return 'content_filter';
+        default:
+            return 'other';
+    }
+}
+
+// Image output models reply with a mix of text and inline images
+function isImageOutputModel(modelId: string): boolean {
+    return /gemini-.*-image/.test(modelId);
+}
+
+// Gemini 1.5 only grounds through the older retrieval tool; later models take google_search
+function getSearchTool(modelId: string): Record<string, unknown> {
+    return modelId.includes('gemini-1.5') ? { google_search_retrieval: {} } : { google_search: {} };
+}
+
+// Gemini 2.5 and later think by default, within a token budget
+function isThinkingModel(modelId: string): boolean {
+    return /gemini-(2\.5|[3-9])/.test(modelId) && !isImageOutputModel(modelId);
+}
+
+function getThinkingConfig(config: ChatConfig): Record<string, unknown> | undefined {
+    if (!isThinkingModel(config.model)) return undefined;
+
+    const effort = config.reasoningEffort;
+    if (effort === 'off') {
+        // Pro models cannot switch thinking off, so leave their default budget alone
+        return config.model.includes('pro') ? undefined : { thinkingBudget: 0 };
     }
-    // Default to flash pricing
-    return { input: 0.15, output: 0.60 };
+    if (!effort || effort === 'auto') {
+        return { includeThoughts: true };
+    }
+    return { thinkingBudget: REASONING_BUDGETS[effort], includeThoughts: true };
+}
+
+function collectGroundingCitations(grounding: GeminiGroundingMetadata | undefined, text: string): CitationCollector {
+    const collector = new CitationCollector();
+    const chunks = grounding?.groundingChunks ?? [];
+    grounding?.groundingSupports?.forEach(support => {
+        const end = support.segment?.endIndex;
+        support.groundingChunkIndices?.forEach(index => {
+            const web = chunks[index]?.web;
+            if (web) {
+                collector.add({ url: web.uri, title: web.title }, end !== undefined ? utf8OffsetToIndex(text, end) : undefined);
+            }
+        });
+    });
+    // Sources no segment points at are still listed
+    chunks.forEach(chunk => {
+        if (chunk.web) collector.add({ url: chunk.web.uri, title: chunk.web.title });
+    });
+    return collector;
 }
 
 export const geminiAdapter: ProviderAdapter = {
     providerId: 'gemini',
 
     async fetchModels(apiKey: string): Promise<Model[]> {
-        const response = await fetch(
+        const response = await providerFetch(
+            'gemini',
             `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`
         );
 
         if (!response.ok) {
-            throw new Error(`Failed to fetch Gemini models: ${response.statusText}`);
+            throw await providerErrorFromResponse('gemini', response);
         }
 
         const data = await response.json();
+        const models: GeminiModel[] = data.models;
 
-        return data.models
-            .filter((model: { supportedGenerationMethods?: string[] }) =>
-                model.supportedGenerationMethods?.includes('generateContent')
-            )
-            .map((model: { name: string; displayName: string; inputTokenLimit?: number }) => {
+        const chatModels = models
+            .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+            .map(model => {
                 const modelId = model.name.replace('models/', '');
-                const pricing = getModelPricing(modelId);
                 const isMultimodal = modelId.includes('1.5') || modelId.includes('2.0') || modelId.includes('2.5');
                 const isPro = modelId.includes('pro');
                 return {
@@ -51,14 +222,39 @@ export const geminiAdapter: ProviderAdapter = {
                     name: model.displayName || modelId,
                     providerId: 'gemini' as const,
                     contextLength: model.inputTokenLimit,
-                    pricing,
                     supportsImages: isMultimodal,
                     supportsDocuments: isMultimodal,
                     supportsCode: true,
-                    supportsFunctionCalling: true,
+                    supportsFunctionCalling: !isImageOutputModel(modelId),
+                    supportsReasoning: isThinkingModel(modelId),
+                    supportsImageGeneration: isImageOutputModel(modelId),
+                    supportsWebSearch: !isImageOutputModel(modelId) && !modelId.startsWith('gemma'),
                     description: isPro ? 'Highly capable model for complex reasoning' : 'Fast and efficient model for most tasks',
                 };
             });
+
+        const embeddingModels = models
+            .filter(model => model.supportedGenerationMethods?.includes('embedContent'))
+            .map(model => {
+                const modelId = model.name.replace('models/', '');
+                return {
+                    id: modelId,
+                    name: model.displayName || modelId,
+                    providerId: 'gemini' as const,
+                    kind: 'embedding' as const,
+                    contextLength: model.inputTokenLimit,
+                    description: 'Text embeddings',
+                };
+            });
+
+        return [...chatModels, ...embeddingModels];
+    },
+
+    validateKey(apiKey: string): Promise<KeyValidation> {
+        return checkKey('gemini', () => fetch(...proxyRequest(
+            'gemini',
+            `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1&key=${apiKey}`
+        )));
     },
 
     async streamChat(
@@ -68,38 +264,7 @@ export const geminiAdapter: ProviderAdapter = {
         callbacks: StreamCallbacks,
         signal?: AbortSignal
     ): Promise<void> {
-        const contents = messages
-            .filter(m => m.role !== 'system')
-            .map(msg => {
-                const parts: any[] = [];
-
-                // Add attachments first (recommended for Gemini)
-                if (msg.attachments && msg.attachments.length > 0) {
-                    msg.attachments.forEach(att => {
-                        const parts_base64 = att.data.split(',');
-                        const data = parts_base64.length > 1 ? parts_base64[1] : parts_base64[0];
-                        const header = parts_base64.length > 1 ? parts_base64[0] : '';
-                        const mimeType = header.match(/:(.*?);/)?.[1] || att.mimeType;
-
-                        parts.push({
-                            inline_data: {
-                                mime_type: mimeType,
-                                data: data
-                            }
-                        });
-                    });
-                }
-
-                // Add text part if it exists and is not empty
-                if (msg.content && msg.content.trim().length > 0) {
-                    parts.push({ text: msg.content });
-                }
-
-                return {
-                    role: msg.role === 'user' ? 'user' : 'model',
-                    parts
-                };
-            });
+        const contents = toGeminiContents(messages);
 
         const systemInstruction = messages.find(m => m.role === 'system');
 
@@ -108,6 +273,14 @@ export const geminiAdapter: ProviderAdapter = {
             generationConfig: {
                 temperature: config.temperature ?? 0.7,
                 maxOutputTokens: config.maxTokens ?? 8192,
+                topP: config.topP,
+                topK: config.topK,
+                stopSequences: config.stopSequences?.length ? config.stopSequences : undefined,
+                frequencyPenalty: config.frequencyPenalty,
+                presencePenalty: config.presencePenalty,
+                seed: config.seed,
+                thinkingConfig: getThinkingConfig(config),
+                responseModalities: isImageOutputModel(config.model) ? ['TEXT', 'IMAGE'] : undefined,
             },
             safetySettings: [
                 { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_ONLY_HIGH' },
@@ -117,13 +290,29 @@ export const geminiAdapter: ProviderAdapter = {
             ],
         };
 
+        // Search grounding can't be combined with function declarations, and a history
+        // with functionCall turns is rejected without them, so search is left out then
+        const hasToolTurns = messages.some(m => m.role === 'tool' || m.toolCalls?.length);
+        if (config.webSearch && !(hasToolTurns && config.tools?.length)) {
+            requestBody.tools = [getSearchTool(config.model)];
+        } else if (config.tools?.length) {
+            requestBody.tools = [{
+                functionDeclarations: config.tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                })),
+            }];
+        }
+
         if (systemInstruction) {
             requestBody.systemInstruction = {
                 parts: [{ text: systemInstruction.content }],
             };
         }
 
-        const response = await fetch(
+        const response = await providerFetch(
+            'gemini',
             `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:streamGenerateContent?alt=sse&key=${apiKey}`,
             {
                 method: 'POST',
@@ -132,49 +321,70 @@ export const geminiAdapter: ProviderAdapter = {
                 },
                 body: JSON.stringify(requestBody),
                 signal,
-            }
+            },
+            callbacks.onRetry
         );
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`Gemini API error: ${error}`);
+            throw await providerErrorFromResponse('gemini', response);
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) {
-            throw new Error('No response body');
-        }
-
-        const decoder = new TextDecoder();
         let fullResponse = '';
+        let toolCallCount = 0;
+        let imageCount = 0;
+        let usage: TokenUsage | undefined;
+        let grounding: GeminiGroundingMetadata | undefined;
+        let finishReason: FinishReason | undefined;
 
         try {
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const jsonStr = line.slice(6);
-                        if (jsonStr.trim() === '[DONE]') continue;
-
-                        try {
-                            const data = JSON.parse(jsonStr);
-                            const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-                            if (text) {
-                                fullResponse += text;
-                                callbacks.onToken(text);
-                            }
-                        } catch {
-                            // Skip invalid JSON
-                        }
+            for await (const { data } of readSSEJson<GeminiStreamChunk>(response)) {
+                if (data.promptFeedback?.blockReason) {
+                    throw createProviderError('gemini', `Prompt blocked by safety filters (${data.promptFeedback.blockReason})`);
+                }
+
+                const parts = data.candidates?.[0]?.content?.parts || [];
+                const thought = parts.filter(part => part.thought).map(part => part.text ?? '').join('');
+                if (thought) {
+                    callbacks.onReasoning?.(thought);
+                }
+
+                const text = parts.filter(part => !part.thought).map(part => part.text ?? '').join('');
+                if (text) {
+                    fullResponse += text;
+                    callbacks.onToken(text);
+                }
+
+                // Gemini sends function calls and images whole rather than as deltas, and without ids
+                parts.forEach(part => {
+                    if (part.inlineData) {
+                        callbacks.onImage?.(generatedImageAttachment(part.inlineData.data, part.inlineData.mimeType, imageCount++));
                     }
+                    if (part.functionCall) {
+                        callbacks.onToolCall?.({
+                            id: `${part.functionCall.name}-${toolCallCount++}`,
+                            name: part.functionCall.name,
+                            arguments: JSON.stringify(part.functionCall.args ?? {}),
+                        });
+                    }
+                });
+
+                grounding = data.candidates?.[0]?.groundingMetadata ?? grounding;
+                const reason = data.candidates?.[0]?.finishReason;
+                if (reason) finishReason = toFinishReason(reason);
+
+                const metadata = data.usageMetadata;
+                if (metadata?.promptTokenCount !== undefined) {
+                    usage = {
+                        inputTokens: metadata.promptTokenCount,
+                        // Thinking tokens are billed as output
+                        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+                        cachedInputTokens: metadata.cachedContentTokenCount || undefined,
+                        reasoningTokens: metadata.thoughtsTokenCount || undefined,
+                    };
                 }
             }
-            callbacks.onComplete(fullResponse);
+            const cited = collectGroundingCitations(grounding, fullResponse).apply(fullResponse);
+            callbacks.onComplete(cited.text, { usage, citations: cited.citations, finishReason });
         } catch (error) {
             if (error instanceof Error && error.name === 'AbortError') {
                 callbacks.onComplete(fullResponse);
@@ -184,8 +394,33 @@ export const geminiAdapter: ProviderAdapter = {
         }
     },
 
-    estimateCost(inputTokens: number, outputTokens: number, modelId: string): number {
-        const pricing = getModelPricing(modelId);
-        return calculateCost(inputTokens, outputTokens, pricing.input, pricing.output);
+    // Gemini doesn't report token counts for embeddings, so usage is left to the caller to estimate
+    embed(texts: string[], model: string, apiKey: string, signal?: AbortSignal): Promise<EmbeddingResult> {
+        return embedInBatches(texts, model, EMBEDDING_BATCH_SIZE, async (batch) => {
+            const response = await providerFetch(
+                'gemini',
+                `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${apiKey}`,
+                {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        requests: batch.map(text => ({
+                            model: `models/${model}`,
+                            content: { parts: [{ text }] },
+                        })),
+                    }),
+                    signal,
+                }
+            );
+
+            if (!response.ok) {
+                throw await providerErrorFromResponse('gemini', response);
+            }
+
+            const data: { embeddings?: { values: number[] }[] } = await response.json();
+            return { embeddings: (data.embeddings ?? []).map(embedding => embedding.values) };
+        });
     },
 };
@@ -1,22 +1,36 @@
 // Provider Registry - exports all provider adapters
-import { ProviderAdapter, ProviderId } from '@/types';
+import { ProviderAdapter, ProviderId, BuiltInProviderId, isCustomProviderId } from '@/types';
+import { getCustomProvider } from '@/lib/storage';
 import { geminiAdapter } from './gemini';
 import { anthropicAdapter } from './anthropic';
 import { openaiAdapter } from './openai';
 import { xaiAdapter } from './xai';
 import { groqAdapter } from './groq';
 import { openrouterAdapter } from './openrouter';
+import { ollamaAdapter } from './ollama';
+import { mockAdapter } from './mock';
+import { createOpenAICompatibleAdapter } from './openai-compatible';
 
-export const providerAdapters: Record<ProviderId, ProviderAdapter> = {
+export const providerAdapters: Record<BuiltInProviderId, ProviderAdapter> = {
     gemini: geminiAdapter,
     anthropic: anthropicAdapter,
     openai: openaiAdapter,
     xai: xaiAdapter,
     groq: groqAdapter,
     openrouter: openrouterAdapter,
+    ollama: ollamaAdapter,
+    mock: mockAdapter,
 };
 
 export function getAdapter(providerId: ProviderId): ProviderAdapter {
+    if (isCustomProviderId(providerId)) {
+        const config = getCustomProvider(providerId);
+        if (!config) {
+            throw new Error(`Unknown provider: ${providerId}`);
+        }
+        return createOpenAICompatibleAdapter(config);
+    }
+
     const adapter = providerAdapters[providerId];
     if (!adapter) {
         throw new Error(`Unknown provider: ${providerId}`);
@@ -30,3 +44,9 @@ export * from './openai';
 export * from './xai';
 export * from './groq';
 export * from './openrouter';
+export * from './ollama';
+export * from './mock';
+export * from './openai-compatible';
+export * from './embed';
+export * from './errors';
+export * from './proxy';
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ChatConfig, DEFAULT_MOCK_PROVIDER_SETTINGS, Message, MockProviderSettings } from '@/types';
+import { createMockAdapter } from './mock';
+import { ProviderError } from './errors';
+import { StreamResult, collectStream } from './test-helpers';
+
+function message(role: Message['role'], content: string): Message {
+    return { id: `${role}-${content}`, role, content, timestamp: 0 };
+}
+
+function stream(settings: Partial<MockProviderSettings>, config: ChatConfig, messages: Message[], random = 0): Promise<StreamResult> {
+    const adapter = createMockAdapter(
+        () => ({ ...DEFAULT_MOCK_PROVIDER_SETTINGS, latencyMs: 0, chunkDelayMs: 0, ...settings }),
+        () => random
+    );
+    return collectStream(callbacks => adapter.streamChat(messages, config, '', callbacks));
+}
+
+describe('mock provider', () => {
+    it('streams an echo of the prompt in chunks and reports usage', async () => {
+        const result = await stream({ chunkSize: 4 }, { model: 'mock-basic' }, [message('user', 'hello there')]);
+
+        expect(result.tokens.join('')).toBe('Echo: hello there');
+        expect(result.tokens.every(token => token.length <= 4)).toBe(true);
+        expect(result.response).toBe('Echo: hello there');
+        expect(result.info?.finishReason).toBe('stop');
+        expect(result.info?.usage?.outputTokens).toBeGreaterThan(0);
+    });
+
+    it('replies with the script in turn', async () => {
+        const messages = [message('user', 'a'), message('assistant', 'first'), message('user', 'b')];
+        const result = await stream({ mode: 'scripted', script: ['first', 'second'] }, { model: 'mock-basic' }, messages);
+
+        expect(result.response).toBe('second');
+    });
+
+    it('calls a tool named in the prompt', async () => {
+        const config: ChatConfig = {
+            model: 'mock-tools',
+            tools: [{ name: 'get_time', description: 'Current time', parameters: { type: 'object', properties: {} } }],
+        };
+        const result = await stream({}, config, [message('user', 'use get_time please')]);
+
+        expect(result.toolCalls).toHaveLength(1);
+        expect(result.toolCalls[0].name).toBe('get_time');
+        expect(result.info?.finishReason).toBe('tool_calls');
+    });
+
+    it('streams thinking before the answer', async () => {
+        const result = await stream({}, { model: 'mock-reasoning', reasoningEffort: 'high' }, [message('user', 'why')]);
+
+        expect(result.reasoning).toContain('effort: high');
+        expect(result.response).toBe('Echo: why');
+    });
+
+    it('cuts the reply off at the output token limit', async () => {
+        const result = await stream({}, { model: 'mock-basic', maxTokens: 2 }, [message('user', 'a long enough prompt')]);
+
+        expect(result.response).toBe('Echo: a ');
+        expect(result.info?.finishReason).toBe('length');
+    });
+
+    it('fails with a classified HTTP error', async () => {
+        const result = await stream({ failure: 'http', failureRate: 1, failureStatus: 429 }, { model: 'mock-basic' }, [message('user', 'hi')]);
+
+        expect(result.error).toBeInstanceOf(ProviderError);
+        expect((result.error as ProviderError).kind).toBe('rate_limit');
+        expect(result.tokens).toHaveLength(0);
+    });
+
+    it('drops the stream halfway through a disconnect', async () => {
+        const result = await stream({ failure: 'disconnect', failureRate: 1, chunkSize: 2 }, { model: 'mock-basic' }, [message('user', 'hello')]);
+
+        expect((result.error as ProviderError).kind).toBe('network');
+        expect(result.tokens.length).toBeGreaterThan(0);
+        expect(result.response).toBeUndefined();
+    });
+});
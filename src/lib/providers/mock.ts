@@ -0,0 +1,266 @@
+// Mock Provider Adapter
+//
+// Streams canned replies without touching the network so the chat UI, storage
+// and tool loop can be exercised offline. Latency, chunking and failures are
+// configurable; tests can build an adapter with fixed settings and a seeded
+// random source through createMockAdapter.
+import { ProviderAdapter, Model, Message, ChatConfig, StreamCallbacks, MockProviderSettings, KeyValidation, EmbeddingResult, ImageGenerationConfig, ImageGenerationResult } from '@/types';
+import { generatedImageAttachment } from '@/lib/attachments';
+import { getMockProviderSettings, estimateTokens } from '@/lib/storage';
+import { sleep } from './request';
+import { ProviderError, createProviderError } from './errors';
+import { checkKey } from './validate';
+import { localEmbed, LOCAL_EMBEDDING_DIMENSIONS } from './embed';
+import { CitationCollector } from './citations';
+
+// One model per capability so every UI path can be reached
+export const MOCK_MODELS: Model[] = [
+    {
+        id: 'mock-basic',
+        name: 'Mock Basic',
+        providerId: 'mock',
+        contextLength: 8192,
+        supportsCode: true,
+        supportsWebSearch: true,
+        description: 'Text only; cites a made-up source when web search is on',
+    },
+    {
+        id: 'mock-vision',
+        name: 'Mock Vision',
+        providerId: 'mock',
+        contextLength: 128000,
+        supportsImages: true,
+        supportsDocuments: true,
+        supportsCode: true,
+        description: 'Accepts images and PDFs',
+    },
+    {
+        id: 'mock-tools',
+        name: 'Mock Tools',
+        providerId: 'mock',
+        contextLength: 128000,
+        supportsCode: true,
+        supportsFunctionCalling: true,
+        description: 'Calls any tool whose name appears in the prompt',
+    },
+    {
+        id: 'mock-reasoning',
+        name: 'Mock Reasoning',
+        providerId: 'mock',
+        contextLength: 128000,
+        supportsCode: true,
+        supportsReasoning: true,
+        description: 'Streams a thinking section before answering',
+    },
+    {
+        id: 'mock-tiny-context',
+        name: 'Mock Tiny Context',
+        providerId: 'mock',
+        contextLength: 1024,
+        description: 'Small context window for testing context limits',
+    },
+    {
+        id: 'mock-image',
+        name: 'Mock Image',
+        providerId: 'mock',
+        kind: 'image',
+        supportsImageGeneration: true,
+        description: 'Draws placeholder images with the prompt written on them',
+    },
+    {
+        id: 'mock-embedding',
+        name: 'Mock Embedding',
+        providerId: 'mock',
+        kind: 'embedding',
+        contextLength: 8192,
+        embeddingDimensions: LOCAL_EMBEDDING_DIMENSIONS,
+        description: 'Local hashed bag-of-words vectors',
+    },
+];
+
+function chunkText(text: string, size: number): string[] {
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+        chunks.push(text.slice(i, i + size));
+    }
+    return chunks;
+}
+
+function echoReply(messages: Message[]): string {
+    const last = messages[messages.length - 1];
+    if (last?.role === 'tool') {
+        return `Tool ${last.toolName ?? 'call'} returned:\n\n${last.content}`;
+    }
+
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const attachments = lastUser?.attachments?.length
+        ? `\n\n(${lastUser.attachments.length} attachment${lastUser.attachments.length === 1 ? '' : 's'}: ${lastUser.attachments.map(a => a.name).join(', ')})`
+        : '';
+    return `Echo: ${lastUser?.content ?? ''}${attachments}`;
+}
+
+// Scripted replies follow the number of assistant turns so far, which keeps them stable across retries
+function scriptedReply(messages: Message[], script: string[]): string {
+    if (script.length === 0) return echoReply(messages);
+    const turn = messages.filter(m => m.role === 'assistant').length;
+    return script[turn % script.length];
+}
+
+const MOCK_IMAGE_DIMENSIONS = { square: [512, 512], landscape: [768, 512], portrait: [512, 768] };
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&'"]/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// SVG placeholder in a different hue per image
+function placeholderImage(prompt: string, config: ImageGenerationConfig, index: number): string {
+    const [width, height] = MOCK_IMAGE_DIMENSIONS[config.size];
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+        + `<rect width="100%" height="100%" fill="hsl(${(index * 90) % 360} 60% ${config.quality === 'high' ? 45 : 60}%)"/>`
+        + `<text x="50%" y="50%" text-anchor="middle" font-family="sans-serif" font-size="20" fill="white">${escapeXml(prompt.slice(0, 40))}</text>`
+        + '</svg>';
+    return btoa(String.fromCharCode(...new TextEncoder().encode(svg)));
+}
+
+function mockFailureBody(settings: MockProviderSettings): string {
+    return JSON.stringify({ error: { message: `Injected failure with status ${settings.failureStatus}` } });
+}
+
+export function createMockAdapter(
+    getSettings: () => MockProviderSettings = getMockProviderSettings,
+    random: () => number = Math.random
+): ProviderAdapter {
+    return {
+        providerId: 'mock',
+
+        async fetchModels(): Promise<Model[]> {
+            await sleep(getSettings().latencyMs);
+            return MOCK_MODELS;
+        },
+
+        // HTTP failure injection applies here too, so rejected and exhausted keys can be shown
+        validateKey(): Promise<KeyValidation> {
+            const settings = getSettings();
+            return checkKey('mock', async () => {
+                await sleep(settings.latencyMs);
+                const failing = settings.failure === 'http' && random() < settings.failureRate;
+                return failing
+                    ? new Response(mockFailureBody(settings), { status: settings.failureStatus })
+                    : new Response('{}');
+            });
+        },
+
+        async streamChat(
+            messages: Message[],
+            config: ChatConfig,
+            _apiKey: string,
+            callbacks: StreamCallbacks,
+            signal?: AbortSignal
+        ): Promise<void> {
+            const settings = getSettings();
+            const model = MOCK_MODELS.find(m => m.id === config.model);
+            const failing = settings.failure !== 'none' && random() < settings.failureRate;
+            const chunkSize = Math.max(1, settings.chunkSize);
+            let fullResponse = '';
+
+            try {
+                await sleep(settings.latencyMs, signal);
+                if (failing && settings.failure === 'http') {
+                    callbacks.onError(createProviderError('mock', mockFailureBody(settings), settings.failureStatus));
+                    return;
+                }
+
+                // Tool-capable models call the first tool the user mentions by name
+                const last = messages[messages.length - 1];
+                const tool = model?.supportsFunctionCalling && last?.role === 'user'
+                    ? config.tools?.find(t => last.content.includes(t.name))
+                    : undefined;
+
+                if (model?.supportsReasoning && config.reasoningEffort !== 'off') {
+                    const thinking = `Considering the request (effort: ${config.reasoningEffort ?? 'auto'})...`;
+                    for (const chunk of chunkText(thinking, chunkSize)) {
+                        await sleep(settings.chunkDelayMs, signal);
+                        callbacks.onReasoning?.(chunk);
+                    }
+                }
+
+                const fullReply = tool
+                    ? `Calling ${tool.name}.`
+                    : settings.mode === 'scripted' ? scriptedReply(messages, settings.script) : echoReply(messages);
+                // Max output tokens cut the reply short, at about four characters per token
+                const limit = config.maxTokens !== undefined ? config.maxTokens * 4 : Infinity;
+                const truncated = fullReply.length > limit;
+                const reply = truncated ? fullReply.slice(0, limit) : fullReply;
+                const chunks = chunkText(reply, chunkSize);
+                // Disconnects happen halfway so some output has already been shown
+                const disconnectAt = failing && settings.failure === 'disconnect' ? Math.floor(chunks.length / 2) : -1;
+
+                for (let i = 0; i < chunks.length; i++) {
+                    if (i === disconnectAt) {
+                        callbacks.onError(new ProviderError(`Mock stream disconnected after ${i} chunks`, {
+                            providerId: 'mock',
+                            kind: 'network',
+                        }));
+                        return;
+                    }
+                    await sleep(settings.chunkDelayMs, signal);
+                    fullResponse += chunks[i];
+                    callbacks.onToken(chunks[i]);
+                }
+
+                if (tool && !truncated) {
+                    callbacks.onToolCall?.({ id: `mock-call-${Date.now()}`, name: tool.name, arguments: '{}' });
+                }
+
+                const citations = new CitationCollector();
+                if (config.webSearch && model?.supportsWebSearch) {
+                    citations.add({ url: 'https://example.com/mock-source', title: 'Mock source' }, fullResponse.length);
+                }
+                const cited = citations.apply(fullResponse);
+
+                const inputTokens = messages.reduce((acc, m) => acc + estimateTokens(m.content, m.attachments), 0);
+                callbacks.onComplete(cited.text, {
+                    usage: { inputTokens, outputTokens: estimateTokens(fullResponse) },
+                    citations: cited.citations,
+                    finishReason: truncated ? 'length' : tool ? 'tool_calls' : 'stop',
+                });
+            } catch (error) {
+                if (error instanceof Error && error.name === 'AbortError') {
+                    callbacks.onComplete(fullResponse);
+                } else {
+                    callbacks.onError(error as Error);
+                }
+            }
+        },
+
+        async embed(texts: string[], model: string, _apiKey: string, signal?: AbortSignal): Promise<EmbeddingResult> {
+            const settings = getSettings();
+            await sleep(settings.latencyMs, signal);
+            if (settings.failure === 'http' && random() < settings.failureRate) {
+                throw createProviderError('mock', mockFailureBody(settings), settings.failureStatus);
+            }
+            const inputTokens = texts.reduce((acc, text) => acc + estimateTokens(text), 0);
+            return { ...localEmbed(texts), model, usage: { inputTokens, outputTokens: 0 } };
+        },
+
+        async generateImages(
+            prompt: string,
+            config: ImageGenerationConfig,
+            _apiKey: string,
+            signal?: AbortSignal
+        ): Promise<ImageGenerationResult> {
+            const settings = getSettings();
+            await sleep(settings.latencyMs, signal);
+            if (settings.failure !== 'none' && random() < settings.failureRate) {
+                throw createProviderError('mock', mockFailureBody(settings), settings.failureStatus);
+            }
+            return {
+                images: Array.from({ length: config.count }, (_, index) =>
+                    generatedImageAttachment(placeholderImage(prompt, config, index), 'image/svg+xml', index)
+                ),
+            };
+        },
+    };
+}
+
+export const mockAdapter = createMockAdapter();
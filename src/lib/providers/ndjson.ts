@@ -0,0 +1,54 @@
+// Newline-delimited JSON decoder for streaming APIs that don't use SSE (e.g. Ollama)
+//
+// Like the SSE decoder, the incomplete trailing line is buffered until the rest
+// of it arrives in a later network chunk.
+
+export async function* readNDJSON<T = unknown>(response: Response): AsyncGenerator<T> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finished = false;
+
+    const parse = (line: string): T | undefined => {
+        const trimmed = line.trim();
+        if (!trimmed) return undefined;
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            console.warn('Skipping malformed stream line:', trimmed);
+            return undefined;
+        }
+    };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                finished = true;
+                break;
+            }
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+
+            for (const line of lines) {
+                const parsed = parse(line);
+                if (parsed !== undefined) yield parsed;
+            }
+        }
+
+        buffer += decoder.decode();
+        const parsed = parse(buffer);
+        if (parsed !== undefined) yield parsed;
+    } finally {
+        if (!finished) {
+            reader.cancel().catch(() => { });
+        }
+        reader.releaseLock();
+    }
+}
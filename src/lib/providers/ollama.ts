@@ -0,0 +1,208 @@
+// Ollama Provider Adapter (local models, no API key required)
+import { ProviderAdapter, Model, KeyValidation, Message, ChatConfig, StreamCallbacks, TokenUsage, FinishReason } from '@/types';
+import { getProviderBaseUrl } from '@/lib/storage';
+import { inlineTextAttachments } from '@/lib/attachments';
+import { readNDJSON } from './ndjson';
+import { providerFetch } from './request';
+import { ProviderError, providerErrorFromResponse, createProviderError } from './errors';
+import { checkKey } from './validate';
+
+interface OllamaTag {
+    name: string;
+    model?: string;
+    details?: {
+        family?: string;
+        families?: string[] | null;
+        parameter_size?: string;
+        quantization_level?: string;
+    };
+}
+
+interface OllamaChatChunk {
+    message?: {
+        role: string;
+        content?: string;
+        thinking?: string; // Populated when the request sets `think`
+    };
+    done?: boolean;
+    done_reason?: string; // 'stop', or 'length' when num_predict ran out
+    error?: string;
+    // Only present on the final chunk
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+// The tags endpoint doesn't report capabilities, so thinking models are matched by name
+function isThinkingModel(modelId: string): boolean {
+    return /deepseek-r1|qwen3|qwq|gpt-oss|magistral/i.test(modelId);
+}
+
+function getThinkParam(config: ChatConfig): boolean | string | undefined {
+    if (!isThinkingModel(config.model)) return undefined;
+    const effort = config.reasoningEffort;
+    if (effort === 'off') return false;
+    // gpt-oss takes a level; other models only switch thinking on or off
+    if (config.model.includes('gpt-oss') && effort && effort !== 'auto') return effort;
+    return true;
+}
+
+function getHeaders(apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+    };
+    // Only needed when the server sits behind an authenticating reverse proxy
+    if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+}
+
+function stripDataUrl(data: string): string {
+    const parts = data.split(',');
+    return parts.length > 1 ? parts[1] : parts[0];
+}
+
+export const ollamaAdapter: ProviderAdapter = {
+    providerId: 'ollama',
+
+    async fetchModels(apiKey: string): Promise<Model[]> {
+        const baseUrl = getProviderBaseUrl('ollama');
+        let response: Response;
+        try {
+            response = await providerFetch('ollama', `${baseUrl}/api/tags`, {
+                headers: getHeaders(apiKey),
+            });
+        } catch {
+            throw new ProviderError(`Could not reach Ollama at ${baseUrl}. Is the server running and OLLAMA_ORIGINS set?`, {
+                providerId: 'ollama',
+                kind: 'network',
+            });
+        }
+
+        if (!response.ok) {
+            throw await providerErrorFromResponse('ollama', response);
+        }
+
+        const data: { models?: OllamaTag[] } = await response.json();
+
+        return (data.models || [])
+            .map((model) => {
+                const families = model.details?.families || [];
+                const supportsImages =
+                    families.includes('clip') ||
+                    families.includes('mllama') ||
+                    /llava|vision|bakllava|moondream/i.test(model.name);
+                const details = [model.details?.parameter_size, model.details?.quantization_level]
+                    .filter(Boolean)
+                    .join(' · ');
+                return {
+                    id: model.model || model.name,
+                    name: model.name,
+                    providerId: 'ollama' as const,
+                    supportsImages,
+                    supportsDocuments: false,
+                    supportsCode: true,
+                    supportsFunctionCalling: false,
+                    supportsReasoning: isThinkingModel(model.name),
+                    description: details ? `Local model (${details})` : 'Local model',
+                };
+            })
+            .sort((a: Model, b: Model) => a.name.localeCompare(b.name));
+    },
+
+    // No key is needed locally, so this mostly checks that the server is reachable
+    validateKey(apiKey: string): Promise<KeyValidation> {
+        return checkKey('ollama', () => fetch(`${getProviderBaseUrl('ollama')}/api/tags`, {
+            headers: getHeaders(apiKey),
+        }));
+    },
+
+    async streamChat(
+        messages: Message[],
+        config: ChatConfig,
+        apiKey: string,
+        callbacks: StreamCallbacks,
+        signal?: AbortSignal
+    ): Promise<void> {
+        const chatMessages = inlineTextAttachments(messages, true).map(msg => {
+            // Images only go with user turns; generated ones stay in the UI
+            const images = msg.role !== 'user' ? undefined : msg.attachments
+                ?.filter(att => att.type === 'image')
+                .map(att => stripDataUrl(att.data));
+            return {
+                role: msg.role,
+                content: msg.content,
+                ...(images && images.length > 0 ? { images } : {}),
+            };
+        });
+
+        const options: Record<string, unknown> = {
+            temperature: config.temperature ?? 0.7,
+        };
+        if (config.maxTokens !== undefined) {
+            options.num_predict = config.maxTokens;
+        }
+        if (config.topP !== undefined) options.top_p = config.topP;
+        if (config.topK !== undefined) options.top_k = config.topK;
+        if (config.stopSequences?.length) options.stop = config.stopSequences;
+        if (config.frequencyPenalty !== undefined) options.frequency_penalty = config.frequencyPenalty;
+        if (config.presencePenalty !== undefined) options.presence_penalty = config.presencePenalty;
+        if (config.seed !== undefined) options.seed = config.seed;
+
+        const response = await providerFetch('ollama', `${getProviderBaseUrl('ollama')}/api/chat`, {
+            method: 'POST',
+            headers: getHeaders(apiKey),
+            body: JSON.stringify({
+                model: config.model,
+                messages: chatMessages,
+                options,
+                think: getThinkParam(config),
+                stream: true,
+            }),
+            signal,
+        }, callbacks.onRetry);
+
+        if (!response.ok) {
+            throw await providerErrorFromResponse('ollama', response);
+        }
+
+        let fullResponse = '';
+        let usage: TokenUsage | undefined;
+        let finishReason: FinishReason | undefined;
+
+        try {
+            for await (const chunk of readNDJSON<OllamaChatChunk>(response)) {
+                if (chunk.error) {
+                    throw createProviderError('ollama', chunk.error);
+                }
+                if (chunk.message?.thinking) {
+                    callbacks.onReasoning?.(chunk.message.thinking);
+                }
+                const text = chunk.message?.content;
+                if (text) {
+                    fullResponse += text;
+                    callbacks.onToken(text);
+                }
+                if (chunk.done) {
+                    if (chunk.done_reason) {
+                        finishReason = chunk.done_reason === 'stop' || chunk.done_reason === 'length' ? chunk.done_reason : 'other';
+                    }
+                    if (chunk.prompt_eval_count !== undefined || chunk.eval_count !== undefined) {
+                        usage = {
+                            inputTokens: chunk.prompt_eval_count ?? 0,
+                            outputTokens: chunk.eval_count ?? 0,
+                        };
+                    }
+                    break;
+                }
+            }
+            callbacks.onComplete(fullResponse, { usage, finishReason });
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                callbacks.onComplete(fullResponse);
+            } else {
+                callbacks.onError(error as Error);
+            }
+        }
+    },
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { streamOpenAIResponse } from './openai-compatible';
+import { ProviderError } from './errors';
+import { chunkedResponse, collectStream } from './test-helpers';
+
+// Each chunk goes out as one SSE event in its own network chunk, followed by [DONE] unless the stream fails
+function sseResponse(chunks: unknown[], failure?: Error): Response {
+    const events = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`);
+    return chunkedResponse(failure ? events : [...events, 'data: [DONE]\n\n'], failure);
+}
+
+function stream(response: Response) {
+    return collectStream(callbacks => streamOpenAIResponse('openai', response, callbacks));
+}
+
+describe('streamOpenAIResponse', () => {
+    it('streams text and reasoning, then reports usage and the finish reason', async () => {
+        const result = await stream(sseResponse([
+            { choices: [{ delta: { reasoning_content: 'Thinking' } }] },
+            { choices: [{ delta: { content: 'Hello' } }] },
+            { choices: [{ delta: { content: ' world' }, finish_reason: 'length' }] },
+            { choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, completion_tokens_details: { reasoning_tokens: 1 } } },
+        ]));
+
+        expect(result.reasoning).toBe('Thinking');
+        expect(result.tokens).toEqual(['Hello', ' world']);
+        expect(result.response).toBe('Hello world');
+        expect(result.info?.finishReason).toBe('length');
+        expect(result.info?.usage).toEqual({ inputTokens: 12, outputTokens: 3, cachedInputTokens: undefined, reasoningTokens: 1 });
+    });
+
+    it('reads events split across network chunks', async () => {
+        const event = `data: ${JSON.stringify({ choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] })}\r\n\r\n`;
+        const result = await stream(chunkedResponse([event.slice(0, 9), event.slice(9, -3), event.slice(-3), 'data: [DONE]']));
+
+        expect(result.response).toBe('Hi');
+        expect(result.info?.finishReason).toBe('stop');
+    });
+
+    it('reassembles tool calls sent in fragments', async () => {
+        const result = await stream(sseResponse([
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'get_', arguments: '{"ci' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'weather', arguments: 'ty":"Oslo"}' } }] } }] },
+            { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+        ]));
+
+        expect(result.toolCalls).toEqual([{ id: 'call_a', name: 'get_weather', arguments: '{"city":"Oslo"}' }]);
+        expect(result.info?.finishReason).toBe('tool_calls');
+    });
+
+    it('marks cited passages and keeps the upstream provider', async () => {
+        const result = await stream(sseResponse([
+            { provider: 'Azure', choices: [{ delta: { content: 'Sky is blue.' } }] },
+            { choices: [{ delta: { annotations: [{ type: 'url_citation', url_citation: { url: 'https://example.com', end_index: 12 } }] } }] },
+        ]));
+
+        expect(result.response).toBe('Sky is blue.[1]');
+        expect(result.info?.citations).toHaveLength(1);
+        expect(result.info?.upstreamProvider).toBe('Azure');
+    });
+
+    it('fails with a provider error sent mid-stream', async () => {
+        const result = await stream(sseResponse([
+            { choices: [{ delta: { content: 'Par' } }] },
+            { error: { message: 'Rate limit exceeded', code: 429 } },
+        ]));
+
+        expect(result.error).toBeInstanceOf(ProviderError);
+        expect((result.error as ProviderError).kind).toBe('rate_limit');
+        expect(result.response).toBeUndefined();
+    });
+
+    it('completes with the partial reply when the stream is stopped', async () => {
+        const result = await stream(sseResponse(
+            [{ choices: [{ delta: { content: 'Partial' } }] }],
+            new DOMException('The operation was aborted.', 'AbortError')
+        ));
+
+        expect(result.error).toBeUndefined();
+        expect(result.response).toBe('Partial');
+    });
+});
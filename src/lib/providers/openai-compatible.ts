@@ -0,0 +1,478 @@
+// Generic OpenAI-compatible Provider Adapter, backing user-defined custom providers.
+// Also hosts the request/stream helpers shared by the OpenAI-style adapters.
+import {
+    ProviderAdapter,
+    Model,
+    Message,
+    ChatConfig,
+    StreamCallbacks,
+    CustomProviderConfig,
+    ToolCall,
+    ToolDefinition,
+    TokenUsage,
+    FinishReason,
+    KeyValidation,
+    EmbeddingResult,
+    ImageGenerationResult,
+    ProviderId,
+} from '@/types';
+import { inlineTextAttachments, generatedImageAttachment } from '@/lib/attachments';
+import { readSSEJson } from './sse';
+import { providerFetch } from './request';
+import { providerErrorFromResponse, createProviderError } from './errors';
+import { checkKey } from './validate';
+import { embedInBatches } from './embed';
+import { CitationCollector } from './citations';
+
+// Chunk shape of OpenAI-compatible chat completion streams
+export interface OpenAIStreamChunk {
+    choices?: {
+        delta?: {
+            content?: string | null;
+            tool_calls?: OpenAIToolCallDelta[];
+            reasoning?: string | null; // OpenRouter, Groq (parsed format)
+            reasoning_content?: string | null; // xAI, DeepSeek, vLLM
+            annotations?: OpenAIAnnotation[]; // OpenAI search models, OpenRouter web plugin
+        };
+        finish_reason?: string | null;
+    }[];
+    citations?: string[]; // xAI live search: source URLs, sent with the last chunks
+    usage?: OpenAIUsage | null; // Final chunk when stream_options.include_usage is set
+    error?: { message?: string; code?: string | number }; // Mid-stream failure (e.g. OpenRouter upstream errors)
+    x_groq?: { usage?: OpenAIUsage }; // Groq reports usage here instead
+    provider?: string; // OpenRouter: upstream provider serving the request
+}
+
+interface OpenAIAnnotation {
+    type: string;
+    url_citation?: {
+        url: string;
+        title?: string;
+        start_index?: number;
+        end_index?: number; // Where the cited passage ends in the response text
+    };
+}
+
+interface OpenAIUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: {
+        cached_tokens?: number;
+    };
+    completion_tokens_details?: {
+        reasoning_tokens?: number;
+    };
+}
+
+interface OpenAIToolCallDelta {
+    index: number;
+    id?: string;
+    type?: 'function';
+    function?: {
+        name?: string;
+        arguments?: string;
+    };
+}
+
+type OpenAIContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+export interface OpenAIChatMessage {
+    role: Message['role'];
+    content: string | OpenAIContentPart[] | null;
+    tool_calls?: {
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+    }[];
+    tool_call_id?: string;
+}
+
+// Convert chat history into the chat completions message format
+export function toOpenAIMessages(messages: Message[]): OpenAIChatMessage[] {
+    // None of the OpenAI-style APIs take PDFs, so send their extracted text instead
+    return inlineTextAttachments(messages, true).map(msg => {
+        if (msg.role === 'tool') {
+            return {
+                role: 'tool',
+                tool_call_id: msg.toolCallId,
+                content: msg.content,
+            };
+        }
+
+        if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+            return {
+                role: 'assistant',
+                content: msg.content || null,
+                tool_calls: msg.toolCalls.map(call => ({
+                    id: call.id,
+                    type: 'function' as const,
+                    function: { name: call.name, arguments: call.arguments },
+                })),
+            };
+        }
+
+        // Assistant turns only take text; images a model generated stay in the UI
+        const images = msg.role === 'user' ? msg.attachments?.filter(att => att.type === 'image') ?? [] : [];
+        if (images.length > 0) {
+            const content: OpenAIContentPart[] = [];
+            if (msg.content) {
+                content.push({ type: 'text', text: msg.content });
+            }
+            images.forEach(att => {
+                content.push({ type: 'image_url', image_url: { url: att.data } });
+            });
+            return { role: msg.role, content };
+        }
+
+        return {
+            role: msg.role,
+            content: msg.content,
+        };
+    });
+}
+
+interface SamplingSupport {
+    topK?: boolean; // Not part of the OpenAI API, but some gateways accept it
+    penalties?: boolean;
+    stop?: boolean;
+}
+
+// Chat Completions sampling params; unsupported ones are left out rather than rejected
+export function toOpenAISamplingParams(
+    config: ChatConfig,
+    { topK = false, penalties = true, stop = true }: SamplingSupport = {}
+): Record<string, unknown> {
+    const params: Record<string, unknown> = {
+        temperature: config.temperature ?? 0.7,
+        max_tokens: config.maxTokens ?? 4096,
+    };
+    if (config.topP !== undefined) params.top_p = config.topP;
+    if (topK && config.topK !== undefined) params.top_k = config.topK;
+    if (stop && config.stopSequences?.length) params.stop = config.stopSequences;
+    if (penalties && config.frequencyPenalty !== undefined) params.frequency_penalty = config.frequencyPenalty;
+    if (penalties && config.presencePenalty !== undefined) params.presence_penalty = config.presencePenalty;
+    if (config.seed !== undefined) params.seed = config.seed;
+    return params;
+}
+
+export function toOpenAITools(tools: ToolDefinition[]) {
+    return tools.map(tool => ({
+        type: 'function' as const,
+        function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+        },
+    }));
+}
+
+export function parseOpenAIUsage(chunk: OpenAIStreamChunk): TokenUsage | undefined {
+    const usage = chunk.usage || chunk.x_groq?.usage;
+    if (!usage || usage.prompt_tokens === undefined) return undefined;
+    return {
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens ?? 0,
+        cachedInputTokens: usage.prompt_tokens_details?.cached_tokens || undefined,
+        reasoningTokens: usage.completion_tokens_details?.reasoning_tokens || undefined,
+    };
+}
+
+// Only the last chunk of a choice carries it
+export function parseOpenAIFinishReason(chunk: OpenAIStreamChunk): FinishReason | undefined {
+    const reason = chunk.choices?.[0]?.finish_reason;
+    if (!reason) return undefined;
+    switch (reason) {
+        case 'stop':
+        case 'length':
+        case 'tool_calls':
+        case 'content_filter':
+            return reason;
+        case 'function_call':
+            return 'tool_calls';
+        default:
+            return 'other';
+    }
+}
+
+// Web sources arrive as url_citation annotations, or (xAI) as a bare list of URLs
+export function collectOpenAICitations(collector: CitationCollector, chunk: OpenAIStreamChunk): void {
+    chunk.choices?.[0]?.delta?.annotations?.forEach(annotation => {
+        const citation = annotation.type === 'url_citation' ? annotation.url_citation : undefined;
+        if (citation?.url) {
+            collector.add({ url: citation.url, title: citation.title }, citation.end_index);
+        }
+    });
+    chunk.citations?.forEach(url => collector.add({ url }));
+}
+
+// Vendors disagree on the field name for streamed thinking text
+type OpenAIDelta = NonNullable<NonNullable<OpenAIStreamChunk['choices']>[number]['delta']>;
+
+export function getReasoningDelta(delta?: OpenAIDelta): string | undefined {
+    return delta?.reasoning_content || delta?.reasoning || undefined;
+}
+
+// Tool calls arrive as fragments keyed by index; reassemble them into complete calls
+export class OpenAIToolCallAccumulator {
+    private calls = new Map<number, ToolCall>();
+
+    push(deltas?: OpenAIToolCallDelta[]): void {
+        deltas?.forEach(delta => {
+            const call = this.calls.get(delta.index) ?? { id: '', name: '', arguments: '' };
+            if (delta.id) call.id = delta.id;
+            if (delta.function?.name) call.name += delta.function.name;
+            if (delta.function?.arguments) call.arguments += delta.function.arguments;
+            this.calls.set(delta.index, call);
+        });
+    }
+
+    flush(): ToolCall[] {
+        const calls = [...this.calls.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([index, call]) => ({
+                ...call,
+                id: call.id || `call_${index}`,
+                arguments: call.arguments || '{}',
+            }))
+            .filter(call => call.name);
+        this.calls.clear();
+        return calls;
+    }
+}
+
+// Reads a chat completions stream to the end and reports it through the callbacks.
+// A stopped stream completes with what arrived so far.
+export async function streamOpenAIResponse(
+    providerId: ProviderId,
+    response: Response,
+    callbacks: StreamCallbacks
+): Promise<void> {
+    let fullResponse = '';
+    const toolCalls = new OpenAIToolCallAccumulator();
+    const citations = new CitationCollector();
+    let usage: TokenUsage | undefined;
+    let finishReason: FinishReason | undefined;
+    let upstreamProvider: string | undefined;
+
+    try {
+        for await (const { data } of readSSEJson<OpenAIStreamChunk>(response)) {
+            if (data.error) {
+                throw createProviderError(providerId, JSON.stringify(data));
+            }
+            const delta = data.choices?.[0]?.delta;
+            const reasoning = getReasoningDelta(delta);
+            if (reasoning) {
+                callbacks.onReasoning?.(reasoning);
+            }
+            const text = delta?.content;
+            if (text) {
+                fullResponse += text;
+                callbacks.onToken(text);
+            }
+            toolCalls.push(delta?.tool_calls);
+            usage = parseOpenAIUsage(data) ?? usage;
+            finishReason = parseOpenAIFinishReason(data) ?? finishReason;
+            upstreamProvider = data.provider ?? upstreamProvider;
+            collectOpenAICitations(citations, data);
+        }
+        toolCalls.flush().forEach(call => callbacks.onToolCall?.(call));
+        const cited = citations.apply(fullResponse);
+        callbacks.onComplete(cited.text, { usage, citations: cited.citations, upstreamProvider, finishReason });
+    } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+            callbacks.onComplete(fullResponse, { upstreamProvider });
+        } else {
+            callbacks.onError(error as Error);
+        }
+    }
+}
+
+interface OpenAIEmbeddingResponse {
+    data: { index: number; embedding: number[] }[];
+    usage?: { prompt_tokens?: number };
+}
+
+// OpenAI allows 2048 inputs per request but also caps total tokens, so stay well below
+const OPENAI_EMBEDDING_BATCH_SIZE = 256;
+
+// POST to an OpenAI-style /embeddings endpoint, batching the inputs
+export function requestOpenAIEmbeddings(
+    providerId: ProviderId,
+    url: string,
+    headers: Record<string, string>,
+    texts: string[],
+    model: string,
+    signal?: AbortSignal
+): Promise<EmbeddingResult> {
+    return embedInBatches(texts, model, OPENAI_EMBEDDING_BATCH_SIZE, async (batch) => {
+        const response = await providerFetch(providerId, url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...headers,
+            },
+            body: JSON.stringify({ model, input: batch, encoding_format: 'float' }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw await providerErrorFromResponse(providerId, response);
+        }
+
+        const data: OpenAIEmbeddingResponse = await response.json();
+        return {
+            embeddings: [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+            inputTokens: data.usage?.prompt_tokens,
+        };
+    });
+}
+
+interface OpenAIImageResponse {
+    data?: { b64_json?: string; revised_prompt?: string }[];
+    usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+// POST to an OpenAI-style /images/generations endpoint; `body` must ask for base64 output
+export async function requestOpenAIImages(
+    providerId: ProviderId,
+    url: string,
+    headers: Record<string, string>,
+    body: Record<string, unknown>,
+    mimeType: string,
+    signal?: AbortSignal
+): Promise<ImageGenerationResult> {
+    const response = await providerFetch(providerId, url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...headers,
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    if (!response.ok) {
+        throw await providerErrorFromResponse(providerId, response);
+    }
+
+    const data: OpenAIImageResponse = await response.json();
+    const results = (data.data ?? []).filter(item => item.b64_json);
+    return {
+        images: results.map((item, index) => generatedImageAttachment(item.b64_json as string, mimeType, index)),
+        revisedPrompt: results.find(item => item.revised_prompt)?.revised_prompt,
+        // Token-billed image models report usage; per-image ones don't
+        usage: data.usage?.input_tokens !== undefined ? {
+            inputTokens: data.usage.input_tokens,
+            outputTokens: data.usage.output_tokens ?? 0,
+        } : undefined,
+    };
+}
+
+interface OpenAICompatibleModel {
+    id?: string;
+    name?: string;
+    context_length?: number;
+    context_window?: number;
+    max_model_len?: number; // vLLM
+}
+
+function getHeaders(config: CustomProviderConfig, apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = {
+        ...config.headers,
+    };
+
+    if (apiKey) {
+        if (config.authScheme === 'bearer') {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        } else if (config.authScheme === 'header' && config.authHeader) {
+            headers[config.authHeader] = apiKey;
+        }
+    }
+
+    return headers;
+}
+
+export function createOpenAICompatibleAdapter(config: CustomProviderConfig): ProviderAdapter {
+    return {
+        providerId: config.id,
+
+        async fetchModels(apiKey: string): Promise<Model[]> {
+            const endpoint = config.modelsEndpoint || '/models';
+            const response = await providerFetch(config.id, `${config.baseUrl}${endpoint}`, {
+                headers: getHeaders(config, apiKey),
+            });
+
+            if (!response.ok) {
+                throw await providerErrorFromResponse(config.id, response);
+            }
+
+            const data = await response.json();
+            // OpenAI returns { data: [...] }; some gateways use { models: [...] } or a bare array
+            const list: OpenAICompatibleModel[] = Array.isArray(data) ? data : (data.data || data.models || []);
+
+            return list
+                .filter(model => model.id || model.name)
+                .map(model => {
+                    const id = (model.id || model.name) as string;
+                    return {
+                        id,
+                        name: model.name || id,
+                        providerId: config.id,
+                        // Gateways don't say which models embed, so go by the usual naming
+                        kind: /embed/i.test(id) ? 'embedding' as const : undefined,
+                        contextLength: model.context_length ?? model.context_window ?? model.max_model_len,
+                        supportsImages: /vision|vl\b|llava|gpt-4o/i.test(id),
+                        supportsDocuments: false,
+                        supportsCode: true,
+                        supportsFunctionCalling: true,
+                        description: `Served by ${config.name}`,
+                    };
+                })
+                .sort((a, b) => Number(a.kind === 'embedding') - Number(b.kind === 'embedding') || a.id.localeCompare(b.id));
+        },
+
+        // Gateways without auth still prove reachability through the models endpoint
+        validateKey(apiKey: string): Promise<KeyValidation> {
+            return checkKey(config.id, () => fetch(`${config.baseUrl}${config.modelsEndpoint || '/models'}`, {
+                headers: getHeaders(config, apiKey),
+            }));
+        },
+
+        async streamChat(
+            messages: Message[],
+            chatConfig: ChatConfig,
+            apiKey: string,
+            callbacks: StreamCallbacks,
+            signal?: AbortSignal
+        ): Promise<void> {
+            const response = await providerFetch(config.id, `${config.baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...getHeaders(config, apiKey),
+                },
+                body: JSON.stringify({
+                    model: chatConfig.model,
+                    messages: toOpenAIMessages(messages),
+                    ...toOpenAISamplingParams(chatConfig),
+                    stream: true,
+                    stream_options: { include_usage: true },
+                    ...(chatConfig.tools?.length ? { tools: toOpenAITools(chatConfig.tools) } : {}),
+                }),
+                signal,
+            }, callbacks.onRetry);
+
+            if (!response.ok) {
+                throw await providerErrorFromResponse(config.id, response);
+            }
+
+            await streamOpenAIResponse(config.id, response, callbacks);
+        },
+
+        embed(texts: string[], model: string, apiKey: string, signal?: AbortSignal): Promise<EmbeddingResult> {
+            return requestOpenAIEmbeddings(config.id, `${config.baseUrl}/embeddings`, getHeaders(config, apiKey), texts, model, signal);
+        },
+    };
+}
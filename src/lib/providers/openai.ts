@@ -1,27 +1,10 @@
 // OpenAI Provider Adapter
-import { ProviderAdapter, Model, Message, ChatConfig, StreamCallbacks } from '@/types';
-import { calculateCost } from '@/lib/storage';
-
-// Pricing per 1M tokens
-const OPENAI_PRICING: Record<string, { input: number; output: number }> = {
-    'gpt-4o': { input: 2.50, output: 10.00 },
-    'gpt-4o-mini': { input: 0.15, output: 0.60 },
-    'gpt-4-turbo': { input: 10.00, output: 30.00 },
-    'gpt-4': { input: 30.00, output: 60.00 },
-    'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
-    'o1': { input: 15.00, output: 60.00 },
-    'o1-mini': { input: 3.00, output: 12.00 },
-    'o3-mini': { input: 1.10, output: 4.40 },
-};
-
-function getModelPricing(modelId: string): { input: number; output: number } {
-    for (const [key, pricing] of Object.entries(OPENAI_PRICING)) {
-        if (modelId.toLowerCase().includes(key.toLowerCase())) {
-            return pricing;
-        }
-    }
-    return { input: 2.50, output: 10.00 }; // Default to gpt-4o pricing
-}
+import { ProviderAdapter, Model, KeyValidation, Message, ChatConfig, StreamCallbacks, EmbeddingResult, ImageGenerationConfig, ImageGenerationResult } from '@/types';
+import { providerFetch } from './request';
+import { providerErrorFromResponse } from './errors';
+import { checkKey } from './validate';
+import { proxyRequest } from './proxy';
+import { streamOpenAIResponse, toOpenAIMessages, toOpenAITools, toOpenAISamplingParams, requestOpenAIEmbeddings, requestOpenAIImages } from './openai-compatible';
 
 function getModelContext(modelId: string): number {
     if (modelId.includes('128k') || modelId.includes('gpt-4-turbo') || modelId.includes('gpt-4o') || modelId.includes('o1')) return 128000;
@@ -32,18 +15,81 @@ function getModelContext(modelId: string): number {
     return 128000; // Default reasonable high limit
 }
 
+// Vector length of each embedding model at its default size
+const EMBEDDING_DIMENSIONS: Record<string, number> = {
+    'text-embedding-3-small': 1536,
+    'text-embedding-3-large': 3072,
+    'text-embedding-ada-002': 1536,
+};
+
+function isImageModel(modelId: string): boolean {
+    return /^(dall-e|gpt-image)/.test(modelId);
+}
+
+// Each image model family takes its own sizes and quality names
+function getImageParams(config: ImageGenerationConfig): Record<string, unknown> {
+    if (config.model.startsWith('gpt-image')) {
+        // Always returns base64 and rejects response_format
+        return {
+            size: { square: '1024x1024', landscape: '1536x1024', portrait: '1024x1536' }[config.size],
+            quality: config.quality === 'high' ? 'high' : 'medium',
+        };
+    }
+    if (config.model.startsWith('dall-e-3')) {
+        return {
+            size: { square: '1024x1024', landscape: '1792x1024', portrait: '1024x1792' }[config.size],
+            quality: config.quality === 'high' ? 'hd' : 'standard',
+            response_format: 'b64_json',
+        };
+    }
+    // DALL·E 2 only draws squares
+    return { size: '1024x1024', response_format: 'b64_json' };
+}
+
+// o-series and GPT-5 models think before answering and reject the classic sampling params
+function isReasoningModel(modelId: string): boolean {
+    return /^(o\d|gpt-5)/.test(modelId);
+}
+
+// Search models always look things up first; they take no sampling params or tools
+function isSearchModel(modelId: string): boolean {
+    return modelId.includes('search');
+}
+
+function getReasoningParams(config: ChatConfig): Record<string, unknown> {
+    if (isSearchModel(config.model)) {
+        return { max_tokens: config.maxTokens ?? 4096, web_search_options: {} };
+    }
+    if (!isReasoningModel(config.model)) {
+        return toOpenAISamplingParams(config);
+    }
+
+    const params: Record<string, unknown> = {
+        max_completion_tokens: config.maxTokens ?? 4096,
+        ...(config.seed !== undefined ? { seed: config.seed } : {}),
+    };
+    const effort = config.reasoningEffort;
+    if (effort === 'off') {
+        // Reasoning can't be disabled, only minimised
+        params.reasoning_effort = config.model.startsWith('gpt-5') ? 'minimal' : 'low';
+    } else if (effort && effort !== 'auto') {
+        params.reasoning_effort = effort;
+    }
+    return params;
+}
+
 export const openaiAdapter: ProviderAdapter = {
     providerId: 'openai',
 
     async fetchModels(apiKey: string): Promise<Model[]> {
-        const response = await fetch('https://api.openai.com/v1/models', {
+        const response = await providerFetch('openai', 'https://api.openai.com/v1/models', {
             headers: {
                 'Authorization': `Bearer ${apiKey}`,
             },
         });
 
         if (!response.ok) {
-            throw new Error(`Failed to fetch OpenAI models: ${response.statusText}`);
+            throw await providerErrorFromResponse('openai', response);
         }
 
         const data = await response.json();
@@ -51,10 +97,9 @@ export const openaiAdapter: ProviderAdapter = {
         // Filter to only chat models
         const chatModels = data.data
             .filter((model: { id: string }) =>
-                model.id.includes('gpt') || model.id.includes('o1') || model.id.includes('o3')
+                (model.id.includes('gpt') || model.id.includes('o1') || model.id.includes('o3')) && !isImageModel(model.id)
             )
             .map((model: { id: string }) => {
-                const pricing = getModelPricing(model.id);
                 const isLatest = model.id.includes('gpt-4o') || model.id.includes('o1') || model.id.includes('o3');
                 const supportsImages = isLatest || model.id.includes('gpt-4-turbo');
                 return {
@@ -62,17 +107,49 @@ export const openaiAdapter: ProviderAdapter = {
                     name: model.id,
                     providerId: 'openai' as const,
                     contextLength: getModelContext(model.id),
-                    pricing,
                     supportsImages,
                     supportsDocuments: supportsImages,
                     supportsCode: true, // Most OpenAI models are great at code
-                    supportsFunctionCalling: !model.id.includes('instruct'),
+                    supportsFunctionCalling: !model.id.includes('instruct') && !isSearchModel(model.id),
+                    supportsReasoning: isReasoningModel(model.id) && !isSearchModel(model.id),
+                    supportsWebSearch: isSearchModel(model.id),
                     description: isLatest ? 'Our most capable and versatile models' : 'Reliable models for general tasks',
                 };
             })
             .sort((a: Model, b: Model) => a.id.localeCompare(b.id));
 
-        return chatModels;
+        const embeddingModels: Model[] = data.data
+            .filter((model: { id: string }) => model.id.startsWith('text-embedding'))
+            .map((model: { id: string }) => ({
+                id: model.id,
+                name: model.id,
+                providerId: 'openai' as const,
+                kind: 'embedding' as const,
+                contextLength: 8191,
+                embeddingDimensions: EMBEDDING_DIMENSIONS[model.id],
+                description: 'Text embeddings',
+            }))
+            .sort((a: Model, b: Model) => a.id.localeCompare(b.id));
+
+        const imageModels: Model[] = data.data
+            .filter((model: { id: string }) => isImageModel(model.id))
+            .map((model: { id: string }) => ({
+                id: model.id,
+                name: model.id,
+                providerId: 'openai' as const,
+                kind: 'image' as const,
+                supportsImageGeneration: true,
+                description: 'Image generation',
+            }))
+            .sort((a: Model, b: Model) => a.id.localeCompare(b.id));
+
+        return [...chatModels, ...imageModels, ...embeddingModels];
+    },
+
+    validateKey(apiKey: string): Promise<KeyValidation> {
+        return checkKey('openai', () => fetch(...proxyRequest('openai', 'https://api.openai.com/v1/models', {
+            headers: { 'Authorization': `Bearer ${apiKey}` },
+        })));
     },
 
     async streamChat(
@@ -82,29 +159,7 @@ export const openaiAdapter: ProviderAdapter = {
         callbacks: StreamCallbacks,
         signal?: AbortSignal
     ): Promise<void> {
-        const chatMessages = messages.map(msg => {
-            if (msg.attachments && msg.attachments.length > 0) {
-                const content: any[] = [];
-                if (msg.content) {
-                    content.push({ type: 'text', text: msg.content });
-                }
-                msg.attachments.forEach(att => {
-                    if (att.type === 'image') {
-                        content.push({
-                            type: 'image_url',
-                            image_url: { url: att.data }
-                        });
-                    }
-                });
-                return { role: msg.role, content };
-            }
-            return {
-                role: msg.role,
-                content: msg.content,
-            };
-        });
-
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        const response = await providerFetch('openai', 'https://api.openai.com/v1/chat/completions', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -112,65 +167,47 @@ export const openaiAdapter: ProviderAdapter = {
             },
             body: JSON.stringify({
                 model: config.model,
-                messages: chatMessages,
-                temperature: config.temperature ?? 0.7,
-                max_tokens: config.maxTokens ?? 4096,
+                messages: toOpenAIMessages(messages),
+                ...getReasoningParams(config),
                 stream: true,
+                stream_options: { include_usage: true },
+                ...(config.tools?.length ? { tools: toOpenAITools(config.tools) } : {}),
             }),
             signal,
-        });
+        }, callbacks.onRetry);
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`OpenAI API error: ${error}`);
+            throw await providerErrorFromResponse('openai', response);
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) {
-            throw new Error('No response body');
-        }
+        await streamOpenAIResponse('openai', response, callbacks);
+    },
 
-        const decoder = new TextDecoder();
-        let fullResponse = '';
-
-        try {
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const jsonStr = line.slice(6);
-                        if (jsonStr.trim() === '[DONE]') continue;
-
-                        try {
-                            const data = JSON.parse(jsonStr);
-                            const text = data.choices?.[0]?.delta?.content;
-                            if (text) {
-                                fullResponse += text;
-                                callbacks.onToken(text);
-                            }
-                        } catch {
-                            // Skip invalid JSON
-                        }
-                    }
-                }
-            }
-            callbacks.onComplete(fullResponse);
-        } catch (error) {
-            if (error instanceof Error && error.name === 'AbortError') {
-                callbacks.onComplete(fullResponse);
-            } else {
-                callbacks.onError(error as Error);
-            }
-        }
+    embed(texts: string[], model: string, apiKey: string, signal?: AbortSignal): Promise<EmbeddingResult> {
+        return requestOpenAIEmbeddings('openai', 'https://api.openai.com/v1/embeddings', {
+            'Authorization': `Bearer ${apiKey}`,
+        }, texts, model, signal);
     },
 
-    estimateCost(inputTokens: number, outputTokens: number, modelId: string): number {
-        const pricing = getModelPricing(modelId);
-        return calculateCost(inputTokens, outputTokens, pricing.input, pricing.output);
+    async generateImages(
+        prompt: string,
+        config: ImageGenerationConfig,
+        apiKey: string,
+        signal?: AbortSignal
+    ): Promise<ImageGenerationResult> {
+        const request = (n: number) => requestOpenAIImages('openai', 'https://api.openai.com/v1/images/generations', {
+            'Authorization': `Bearer ${apiKey}`,
+        }, { model: config.model, prompt, n, ...getImageParams(config) }, 'image/png', signal);
+
+        if (!config.model.startsWith('dall-e-3')) {
+            return request(config.count);
+        }
+
+        // DALL·E 3 draws one image per request
+        const results = await Promise.all(Array.from({ length: config.count }, () => request(1)));
+        return {
+            images: results.flatMap(result => result.images),
+            revisedPrompt: results[0]?.revisedPrompt,
+        };
     },
 };
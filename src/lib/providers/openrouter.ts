@@ -1,38 +1,106 @@
 // OpenRouter Provider Adapter
-import { ProviderAdapter, Model, Message, ChatConfig, StreamCallbacks } from '@/types';
-import { calculateCost } from '@/lib/storage';
+import { ProviderAdapter, Model, ModelPrice, KeyValidation, Message, ChatConfig, StreamCallbacks, EmbeddingResult, OpenRouterRouting } from '@/types';
+import { providerFetch } from './request';
+import { providerErrorFromResponse } from './errors';
+import { checkKey } from './validate';
+import { proxyRequest } from './proxy';
+import { streamOpenAIResponse, toOpenAIMessages, toOpenAITools, toOpenAISamplingParams, requestOpenAIEmbeddings } from './openai-compatible';
+
+// Prices arrive as dollar strings per token
+function perMillion(price?: string): number | undefined {
+    const value = price ? parseFloat(price) : NaN;
+    return isNaN(value) ? undefined : value * 1_000_000;
+}
+
+interface OpenRouterModel {
+    id: string;
+    name: string;
+    context_length?: number;
+    pricing?: { prompt: string; completion: string; input_cache_read?: string; internal_reasoning?: string };
+    description?: string;
+    supported_parameters?: string[];
+    architecture?: {
+        modality?: string;
+        input_modalities?: string[];
+    };
+}
+
+// OpenRouter reports live per-token prices, which take precedence over the registry
+function toModelPrice(pricing?: OpenRouterModel['pricing']): ModelPrice | undefined {
+    return pricing ? {
+        input: perMillion(pricing.prompt) ?? 0,
+        output: perMillion(pricing.completion) ?? 0,
+        cachedInput: perMillion(pricing.input_cache_read),
+        reasoning: perMillion(pricing.internal_reasoning) || undefined,
+    } : undefined;
+}
+
+// Embedding models have their own list; failing to load it shouldn't hide the chat models
+async function fetchEmbeddingModels(apiKey: string): Promise<Model[]> {
+    try {
+        const response = await fetch(...proxyRequest('openrouter', 'https://openrouter.ai/api/v1/embeddings/models', {
+            headers: { 'Authorization': `Bearer ${apiKey}` },
+        }));
+        if (!response.ok) return [];
+
+        const data = await response.json();
+        return (data.data as OpenRouterModel[]).map(model => ({
+            id: model.id,
+            name: model.name || model.id,
+            providerId: 'openrouter' as const,
+            kind: 'embedding' as const,
+            contextLength: model.context_length,
+            pricing: toModelPrice(model.pricing),
+            description: model.description || 'OpenRouter embedding model',
+        }));
+    } catch {
+        return [];
+    }
+}
+
+// OpenRouter normalises thinking controls across upstream providers
+function getReasoningParams(config: ChatConfig): Record<string, unknown> {
+    const effort = config.reasoningEffort;
+    if (!effort || effort === 'auto') return {};
+    return {
+        reasoning: effort === 'off' ? { enabled: false } : { effort },
+    };
+}
+
+// The request's `provider` object; left out entirely when nothing is set
+function getProviderParams(routing?: OpenRouterRouting): Record<string, unknown> {
+    if (!routing) return {};
+    const provider: Record<string, unknown> = {};
+    if (routing.order?.length) provider.order = routing.order;
+    if (routing.allowFallbacks === false) provider.allow_fallbacks = false;
+    if (routing.denyDataCollection) provider.data_collection = 'deny';
+    if (routing.quantizations?.length) provider.quantizations = routing.quantizations;
+    if (routing.maxPrice?.prompt !== undefined || routing.maxPrice?.completion !== undefined) {
+        provider.max_price = routing.maxPrice;
+    }
+    return Object.keys(provider).length > 0 ? { provider } : {};
+}
 
 export const openrouterAdapter: ProviderAdapter = {
     providerId: 'openrouter',
 
     async fetchModels(apiKey: string): Promise<Model[]> {
-        const response = await fetch('https://openrouter.ai/api/v1/models', {
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-            },
-        });
+        const [response, embeddingModels] = await Promise.all([
+            providerFetch('openrouter', 'https://openrouter.ai/api/v1/models', {
+                headers: {
+                    'Authorization': `Bearer ${apiKey}`,
+                },
+            }),
+            fetchEmbeddingModels(apiKey),
+        ]);
 
         if (!response.ok) {
-            throw new Error(`Failed to fetch OpenRouter models: ${response.statusText}`);
+            throw await providerErrorFromResponse('openrouter', response);
         }
 
         const data = await response.json();
 
-        return data.data.map((model: {
-            id: string;
-            name: string;
-            context_length?: number;
-            pricing?: { prompt: string; completion: string };
-            description?: string;
-            architecture?: {
-                modality?: string;
-                input_modalities?: string[];
-            };
-        }) => {
-            // OpenRouter provides pricing in the response
-            const inputPrice = model.pricing?.prompt ? parseFloat(model.pricing.prompt) * 1_000_000 : 0;
-            const outputPrice = model.pricing?.completion ? parseFloat(model.pricing.completion) * 1_000_000 : 0;
-
+        const chatModels = (data.data as OpenRouterModel[]).map(model => {
             const supportsImages =
                 model.architecture?.modality?.includes('image') ||
                 model.architecture?.input_modalities?.includes('image') ||
@@ -49,17 +117,33 @@ export const openrouterAdapter: ProviderAdapter = {
                 name: model.name || model.id,
                 providerId: 'openrouter' as const,
                 contextLength: model.context_length,
-                pricing: {
-                    input: inputPrice,
-                    output: outputPrice,
-                },
+                pricing: toModelPrice(model.pricing),
                 supportsImages,
                 supportsDocuments,
                 supportsCode: true,
-                supportsFunctionCalling: true,
+                supportsFunctionCalling: model.supported_parameters
+                    ? model.supported_parameters.includes('tools')
+                    : true,
+                supportsReasoning: model.supported_parameters?.includes('reasoning') ?? false,
+                supportsWebSearch: true, // Through the web plugin, for any model
                 description: model.description || 'OpenRouter model',
             };
         });
+
+        return [...chatModels, ...embeddingModels];
+    },
+
+    // The models list is public, so check the key endpoint, which also reports remaining credit
+    validateKey(apiKey: string): Promise<KeyValidation> {
+        return checkKey('openrouter', () => fetch(...proxyRequest('openrouter', 'https://openrouter.ai/api/v1/key', {
+            headers: { 'Authorization': `Bearer ${apiKey}` },
+        })), async (response) => {
+            const { data } = await response.json();
+            if (typeof data?.limit_remaining === 'number' && data.limit_remaining <= 0) {
+                return { status: 'quota_exhausted', message: 'This key has used up its credit limit.' };
+            }
+            return undefined;
+        });
     },
 
     async streamChat(
@@ -69,29 +153,7 @@ export const openrouterAdapter: ProviderAdapter = {
         callbacks: StreamCallbacks,
         signal?: AbortSignal
     ): Promise<void> {
-        const chatMessages = messages.map(msg => {
-            if (msg.attachments && msg.attachments.length > 0) {
-                const content: any[] = [];
-                if (msg.content) {
-                    content.push({ type: 'text', text: msg.content });
-                }
-                msg.attachments.forEach(att => {
-                    if (att.type === 'image') {
-                        content.push({
-                            type: 'image_url',
-                            image_url: { url: att.data }
-                        });
-                    }
-                });
-                return { role: msg.role, content };
-            }
-            return {
-                role: msg.role,
-                content: msg.content,
-            };
-        });
-
-        const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+        const response = await providerFetch('openrouter', 'https://openrouter.ai/api/v1/chat/completions', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -100,67 +162,30 @@ export const openrouterAdapter: ProviderAdapter = {
             },
             body: JSON.stringify({
                 model: config.model,
-                messages: chatMessages,
-                temperature: config.temperature ?? 0.7,
-                max_tokens: config.maxTokens ?? 4096,
+                messages: toOpenAIMessages(messages),
+                // OpenRouter drops params the upstream provider doesn't support
+                ...toOpenAISamplingParams(config, { topK: true }),
+                ...getReasoningParams(config),
+                ...getProviderParams(config.openRouterRouting),
                 stream: true,
+                stream_options: { include_usage: true },
+                ...(config.tools?.length ? { tools: toOpenAITools(config.tools) } : {}),
+                // Same as the :online model suffix; sources come back as url_citation annotations
+                ...(config.webSearch ? { plugins: [{ id: 'web' }] } : {}),
             }),
             signal,
-        });
+        }, callbacks.onRetry);
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`OpenRouter API error: ${error}`);
-        }
-
-        const reader = response.body?.getReader();
-        if (!reader) {
-            throw new Error('No response body');
+            throw await providerErrorFromResponse('openrouter', response);
         }
 
-        const decoder = new TextDecoder();
-        let fullResponse = '';
-
-        try {
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const jsonStr = line.slice(6);
-                        if (jsonStr.trim() === '[DONE]') continue;
-
-                        try {
-                            const data = JSON.parse(jsonStr);
-                            const text = data.choices?.[0]?.delta?.content;
-                            if (text) {
-                                fullResponse += text;
-                                callbacks.onToken(text);
-                            }
-                        } catch {
-                            // Skip invalid JSON
-                        }
-                    }
-                }
-            }
-            callbacks.onComplete(fullResponse);
-        } catch (error) {
-            if (error instanceof Error && error.name === 'AbortError') {
-                callbacks.onComplete(fullResponse);
-            } else {
-                callbacks.onError(error as Error);
-            }
-        }
+        await streamOpenAIResponse('openrouter', response, callbacks);
     },
 
-    estimateCost(inputTokens: number, outputTokens: number, modelId: string): number {
-        // OpenRouter models have dynamic pricing, this is a fallback
-        // Real pricing should come from the model data
-        console.log(`Cost estimation for ${modelId}`);
-        return calculateCost(inputTokens, outputTokens, 1.0, 2.0);
+    embed(texts: string[], model: string, apiKey: string, signal?: AbortSignal): Promise<EmbeddingResult> {
+        return requestOpenAIEmbeddings('openrouter', 'https://openrouter.ai/api/v1/embeddings', {
+            'Authorization': `Bearer ${apiKey}`,
+        }, texts, model, signal);
     },
 };
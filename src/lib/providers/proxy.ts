@@ -0,0 +1,42 @@
+// Server proxy mode, client side
+//
+// When the deployment holds a provider's key (see src/lib/server/provider-keys.ts),
+// requests for that provider go to /api/providers/<id>/<path> instead of the
+// provider's own host, with the access token entered in Settings. The route handler
+// adds the key and pipes the response back unchanged, so adapters parse it exactly
+// as they would a direct one.
+import { ProviderId, PROVIDERS, PROXY_TOKEN_HEADER, isProxyProviderId } from '@/types';
+import { getServerKeyProviders, setServerKeyProviders, hasServerKey, getProxyToken } from '@/lib/storage';
+
+export const PROXY_BASE_PATH = '/api/providers';
+
+// Rewrites a provider request to go through the proxy; anything else is returned as-is
+export function proxyRequest(providerId: ProviderId, url: string, init: RequestInit = {}): [string, RequestInit] {
+    if (!isProxyProviderId(providerId) || !hasServerKey(providerId)) return [url, init];
+    const origin = PROVIDERS[providerId].baseUrl;
+    if (!url.startsWith(origin)) return [url, init];
+
+    const headers = new Headers(init.headers);
+    headers.set(PROXY_TOKEN_HEADER, getProxyToken());
+    return [`${PROXY_BASE_PATH}/${providerId}${url.slice(origin.length)}`, { ...init, headers }];
+}
+
+// Asks the server which keys it holds and remembers the answer. Static exports and
+// deployments without proxy mode have no such route, which means none.
+// Resolves to whether the list changed since the last check.
+export async function syncServerKeyProviders(): Promise<boolean> {
+    let providerIds: ProviderId[] = [];
+    try {
+        const response = await fetch(PROXY_BASE_PATH);
+        if (response.ok) {
+            const data: { providers?: ProviderId[] } = await response.json();
+            providerIds = data.providers ?? [];
+        }
+    } catch {
+        // Not served by this deployment
+    }
+
+    const previous = getServerKeyProviders();
+    setServerKeyProviders(providerIds);
+    return previous.length !== providerIds.length || previous.some(id => !providerIds.includes(id));
+}
@@ -0,0 +1,127 @@
+// Shared request layer for provider adapters
+//
+// Retries failures that happen before a stream starts (rate limits, overloaded or
+// flaky upstreams) with exponential backoff. Once a response is handed back to the
+// adapter nothing is retried, so a partially streamed answer is never duplicated.
+import { ProviderId, RetryInfo } from '@/types';
+import { getRetryPolicy } from '@/lib/storage';
+import { createNetworkError } from './errors';
+import { proxyRequest } from './proxy';
+
+// 529 is Anthropic's "overloaded" status
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 529]);
+
+// Parse durations like "1s", "6m0s", "250ms" or "1h2m3.5s" (OpenAI / Groq reset headers)
+function parseDuration(value: string): number | undefined {
+    const parts = value.trim().match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+    if (!parts) return undefined;
+
+    const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+    return parts.reduce((total, part) => {
+        const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/)!;
+        return total + parseFloat(amount) * units[unit];
+    }, 0);
+}
+
+// How long the server asked us to wait, if it said so
+export function getRetryAfterMs(headers: Headers, rateLimited = false): number | undefined {
+    const retryAfterMs = headers.get('retry-after-ms');
+    if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+        return Number(retryAfterMs);
+    }
+
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter) {
+        // Either a number of seconds or an HTTP date
+        if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    // Reset headers describe quota windows, which only matter when we hit one
+    if (!rateLimited) return undefined;
+
+    // Wait for whichever limit resets last
+    const resets: number[] = [];
+    headers.forEach((value, name) => {
+        if (!name.startsWith('x-ratelimit-reset')) return;
+        const duration = isNaN(Number(value)) ? parseDuration(value) : Number(value) * 1000;
+        if (duration !== undefined) resets.push(duration);
+    });
+    return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+function abortError(): Error {
+    return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Drop-in replacement for fetch() that retries retryable failures before returning.
+// Non-retryable or exhausted failures are returned as-is for the adapter to report;
+// requests that never reach the provider throw a 'network' ProviderError.
+// Providers whose key the server holds are sent through its proxy.
+export async function providerFetch(
+    providerId: ProviderId,
+    url: string,
+    init: RequestInit = {},
+    onRetry?: (info: RetryInfo) => void
+): Promise<Response> {
+    const policy = getRetryPolicy();
+    const signal = init.signal ?? undefined;
+    [url, init] = proxyRequest(providerId, url, init);
+
+    for (let attempt = 0; ; attempt++) {
+        let response: Response | undefined;
+        try {
+            response = await fetch(url, init);
+        } catch (error) {
+            // Network failures are retried like server errors; aborts are not
+            if (error instanceof Error && error.name === 'AbortError') {
+                throw error;
+            }
+            if (attempt >= policy.maxRetries) {
+                throw createNetworkError(providerId, error);
+            }
+        }
+
+        if (response && (response.ok || !RETRYABLE_STATUSES.has(response.status) || attempt >= policy.maxRetries)) {
+            return response;
+        }
+
+        const hinted = response ? getRetryAfterMs(response.headers, response.status === 429) : undefined;
+        // Retrying earlier than the server allows would only fail again
+        if (response && hinted !== undefined && hinted > policy.maxDelayMs) {
+            return response;
+        }
+
+        // Jitter keeps parallel requests from retrying in lockstep
+        const backoff = policy.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+        const waitMs = Math.round(hinted ?? Math.min(backoff, policy.maxDelayMs));
+        response?.body?.cancel().catch(() => { });
+        onRetry?.({
+            attempt: attempt + 1,
+            maxRetries: policy.maxRetries,
+            delayMs: waitMs,
+            status: response?.status,
+        });
+        await sleep(waitMs, signal);
+    }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { SSEDecoder, SSEEvent, readSSE } from './sse';
+import { chunkedResponse } from './test-helpers';
+
+async function readAll(chunks: string[]): Promise<SSEEvent[]> {
+    const events: SSEEvent[] = [];
+    for await (const event of readSSE(chunkedResponse(chunks))) {
+        events.push(event);
+    }
+    return events;
+}
+
+describe('SSEDecoder', () => {
+    it('holds a data line split across chunks until it is complete', () => {
+        const sse = new SSEDecoder();
+
+        expect(sse.push('data: {"te')).toEqual([]);
+        expect(sse.push('xt":"hi"}\n')).toEqual([]);
+        expect(sse.push('\n')).toEqual([{ event: 'message', data: '{"text":"hi"}', id: undefined }]);
+    });
+
+    it('reads a CRLF split across chunks as one line ending', () => {
+        const sse = new SSEDecoder();
+
+        expect(sse.push('event: delta\r')).toEqual([]);
+        expect(sse.push('\ndata: a\r')).toEqual([]);
+        expect(sse.push('\n\r')).toEqual([]);
+        expect(sse.push('\ndata: b\r\n\r\n')).toEqual([
+            { event: 'delta', data: 'a', id: undefined },
+            { event: 'message', data: 'b', id: undefined },
+        ]);
+    });
+
+    it('joins multi-line data and skips comments', () => {
+        const sse = new SSEDecoder();
+
+        expect(sse.push(': keep-alive\ndata: one\ndata: two\n\n')).toEqual([
+            { event: 'message', data: 'one\ntwo', id: undefined },
+        ]);
+    });
+});
+
+describe('readSSE', () => {
+    it('yields events however the network splits them', async () => {
+        const events = await readAll(['da', 'ta: first\r', '\n\r\ndata: sec', 'ond\n\n']);
+
+        expect(events.map(event => event.data)).toEqual(['first', 'second']);
+    });
+
+    it('keeps a final event that arrives without its closing newline', async () => {
+        const events = await readAll(['data: first\n\n', 'data: last']);
+
+        expect(events.map(event => event.data)).toEqual(['first', 'last']);
+    });
+
+    it('decodes a multi-byte character split across chunks', async () => {
+        const bytes = new TextEncoder().encode('data: é\n\n');
+        const split = bytes.indexOf(0xc3) + 1; // Between the two bytes of é
+        const response = new Response(new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes.slice(0, split));
+                controller.enqueue(bytes.slice(split));
+                controller.close();
+            },
+        }));
+        const events: SSEEvent[] = [];
+        for await (const event of readSSE(response)) {
+            events.push(event);
+        }
+
+        expect(events.map(event => event.data)).toEqual(['é']);
+    });
+});
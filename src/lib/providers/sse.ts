@@ -0,0 +1,159 @@
+// Server-Sent Events decoder shared by all provider adapters
+//
+// Network chunks do not line up with SSE lines or events, so the decoder keeps
+// a buffer of the incomplete trailing line and only dispatches an event once its
+// terminating blank line has arrived.
+
+export interface SSEEvent {
+    event: string; // Defaults to 'message' when no `event:` field is sent
+    data: string;  // Multiple `data:` lines are joined with '\n'
+    id?: string;
+}
+
+export interface SSEJsonEvent<T> {
+    event: string;
+    data: T;
+}
+
+// Sentinel sent by OpenAI-compatible APIs after the last chunk
+export const SSE_DONE = '[DONE]';
+
+export class SSEDecoder {
+    private buffer = '';
+    private eventName = '';
+    private dataLines: string[] = [];
+    private lastEventId: string | undefined;
+
+    // Feed decoded text and get back every event completed by it
+    push(chunk: string): SSEEvent[] {
+        this.buffer += chunk;
+        const events: SSEEvent[] = [];
+        let start = 0;
+
+        for (let i = 0; i < this.buffer.length; i++) {
+            const ch = this.buffer[i];
+            if (ch !== '\n' && ch !== '\r') continue;
+
+            if (ch === '\r') {
+                // A trailing CR may be the first half of a CRLF split across chunks
+                if (i + 1 === this.buffer.length) break;
+                if (this.buffer[i + 1] === '\n') {
+                    this.processLine(this.buffer.slice(start, i), events);
+                    i++;
+                    start = i + 1;
+                    continue;
+                }
+            }
+
+            this.processLine(this.buffer.slice(start, i), events);
+            start = i + 1;
+        }
+
+        this.buffer = this.buffer.slice(start);
+        return events;
+    }
+
+    // Call once the stream has ended to dispatch anything still pending
+    flush(): SSEEvent[] {
+        const events: SSEEvent[] = [];
+        const rest = this.buffer.replace(/\r$/, '');
+        this.buffer = '';
+        if (rest) {
+            this.processLine(rest, events);
+        }
+        // Some servers close the stream without the final blank line
+        this.dispatch(events);
+        return events;
+    }
+
+    private processLine(line: string, events: SSEEvent[]): void {
+        if (line === '') {
+            this.dispatch(events);
+            return;
+        }
+
+        // Lines starting with a colon are comments (often used as keep-alives)
+        if (line.startsWith(':')) return;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'event':
+                this.eventName = value;
+                break;
+            case 'data':
+                this.dataLines.push(value);
+                break;
+            case 'id':
+                this.lastEventId = value;
+                break;
+            default:
+                // 'retry' and unknown fields are ignored
+                break;
+        }
+    }
+
+    private dispatch(events: SSEEvent[]): void {
+        if (this.dataLines.length > 0) {
+            events.push({
+                event: this.eventName || 'message',
+                data: this.dataLines.join('\n'),
+                id: this.lastEventId,
+            });
+        }
+        this.eventName = '';
+        this.dataLines = [];
+    }
+}
+
+// Iterate over the events of a streaming response body
+export async function* readSSE(response: Response): AsyncGenerator<SSEEvent> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    const sse = new SSEDecoder();
+    let finished = false;
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                finished = true;
+                break;
+            }
+            yield* sse.push(decoder.decode(value, { stream: true }));
+        }
+        yield* sse.push(decoder.decode());
+        yield* sse.flush();
+    } finally {
+        if (!finished) {
+            // The consumer stopped early (or the read failed); release the connection
+            reader.cancel().catch(() => { });
+        }
+        reader.releaseLock();
+    }
+}
+
+// Iterate over JSON payloads, stopping at the [DONE] sentinel
+export async function* readSSEJson<T = unknown>(response: Response): AsyncGenerator<SSEJsonEvent<T>> {
+    for await (const event of readSSE(response)) {
+        const data = event.data.trim();
+        if (data === SSE_DONE) return;
+        if (!data) continue;
+
+        let parsed: T;
+        try {
+            parsed = JSON.parse(data);
+        } catch {
+            console.warn('Skipping malformed stream event:', data);
+            continue;
+        }
+        yield { event: event.event, data: parsed };
+    }
+}
@@ -0,0 +1,47 @@
+// Fixtures shared by the provider tests
+import { CompletionInfo, StreamCallbacks, ToolCall } from '@/types';
+
+export interface StreamResult {
+    tokens: string[];
+    reasoning: string;
+    toolCalls: ToolCall[];
+    response?: string;
+    info?: CompletionInfo;
+    error?: Error;
+}
+
+// Runs one stream to the end and collects what the callbacks received
+export async function collectStream(run: (callbacks: StreamCallbacks) => Promise<void>): Promise<StreamResult> {
+    const result: StreamResult = { tokens: [], reasoning: '', toolCalls: [] };
+    await run({
+        onToken: token => result.tokens.push(token),
+        onReasoning: token => { result.reasoning += token; },
+        onToolCall: call => result.toolCalls.push(call),
+        onComplete: (response, info) => {
+            result.response = response;
+            result.info = info;
+        },
+        onError: error => { result.error = error; },
+    });
+    return result;
+}
+
+// A response whose body arrives as the given network chunks, then fails with `failure` if given.
+// Chunks are pulled one at a time, so a failure only arrives after everything before it was read.
+export function chunkedResponse(chunks: string[], failure?: Error): Response {
+    const encoder = new TextEncoder();
+    const pending = [...chunks];
+    const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+            const chunk = pending.shift();
+            if (chunk !== undefined) {
+                controller.enqueue(encoder.encode(chunk));
+            } else if (failure) {
+                controller.error(failure);
+            } else {
+                controller.close();
+            }
+        },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
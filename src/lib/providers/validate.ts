@@ -0,0 +1,51 @@
+// API key checks shared by provider adapters
+//
+// Each adapter sends the cheapest authenticated request its API offers; the
+// response is classified with the same rules as chat errors. Checks are not
+// retried, so the reported latency is a single round trip.
+import { ProviderId, KeyStatus, KeyValidation } from '@/types';
+import { ProviderErrorKind, createNetworkError, createProviderError } from './errors';
+
+function statusForErrorKind(kind: ProviderErrorKind): KeyStatus {
+    if (kind === 'auth') return 'invalid';
+    if (kind === 'quota') return 'quota_exhausted';
+    // Being rate limited still means the key was accepted
+    if (kind === 'rate_limit') return 'verified';
+    return 'error';
+}
+
+// `inspect` can look at a successful response for account problems the status code hides
+export async function checkKey(
+    providerId: ProviderId,
+    request: () => Promise<Response>,
+    inspect?: (response: Response) => Promise<Pick<KeyValidation, 'status' | 'message'> | undefined>
+): Promise<KeyValidation> {
+    const startTime = Date.now();
+
+    let response: Response;
+    try {
+        response = await request();
+    } catch (error) {
+        return {
+            status: 'error',
+            latencyMs: Date.now() - startTime,
+            message: createNetworkError(providerId, error).message,
+            checkedAt: Date.now(),
+        };
+    }
+    const latencyMs = Date.now() - startTime;
+
+    if (response.ok) {
+        const problem = await inspect?.(response).catch(() => undefined);
+        return { status: 'verified', ...problem, latencyMs, checkedAt: Date.now() };
+    }
+
+    const body = await response.text().catch(() => '');
+    const error = createProviderError(providerId, body || response.statusText, response.status);
+    return {
+        status: statusForErrorKind(error.kind),
+        latencyMs,
+        message: error.message,
+        checkedAt: Date.now(),
+    };
+}
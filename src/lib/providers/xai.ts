@@ -1,62 +1,95 @@
 // xAI Grok Provider Adapter
-import { ProviderAdapter, Model, Message, ChatConfig, StreamCallbacks } from '@/types';
-import { calculateCost } from '@/lib/storage';
-
-// Pricing per 1M tokens (approximate)
-const XAI_PRICING: Record<string, { input: number; output: number }> = {
-    'grok-2': { input: 2.00, output: 10.00 },
-    'grok-2-mini': { input: 0.20, output: 1.00 },
-    'grok-beta': { input: 5.00, output: 15.00 },
-};
-
-function getModelPricing(modelId: string): { input: number; output: number } {
-    for (const [key, pricing] of Object.entries(XAI_PRICING)) {
-        if (modelId.toLowerCase().includes(key.toLowerCase())) {
-            return pricing;
-        }
-    }
-    return { input: 2.00, output: 10.00 }; // Default
-}
+import { ProviderAdapter, Model, KeyValidation, Message, ChatConfig, StreamCallbacks, ImageGenerationConfig, ImageGenerationResult } from '@/types';
+import { providerFetch } from './request';
+import { providerErrorFromResponse } from './errors';
+import { checkKey } from './validate';
+import { proxyRequest } from './proxy';
+import { streamOpenAIResponse, toOpenAIMessages, toOpenAITools, toOpenAISamplingParams, requestOpenAIImages } from './openai-compatible';
 
 function getModelContext(modelId: string): number {
     // Grok-2 and Grok-beta typically have 128k context
     return 131072; // 128k
 }
 
+function isImageModel(modelId: string): boolean {
+    return modelId.includes('-image');
+}
+
+// Only the grok-3-mini family accepts reasoning_effort, and only low or high
+function supportsReasoningEffort(modelId: string): boolean {
+    return modelId.includes('grok-3-mini');
+}
+
+// Reasoning models reject penalties and stop sequences
+function isReasoningModel(modelId: string): boolean {
+    return /grok-(3-mini|4)/.test(modelId);
+}
+
+function getReasoningParams(config: ChatConfig): Record<string, unknown> {
+    const effort = config.reasoningEffort;
+    if (!supportsReasoningEffort(config.model) || !effort || effort === 'auto' || effort === 'off') {
+        return {};
+    }
+    return { reasoning_effort: effort === 'low' ? 'low' : 'high' };
+}
+
 export const xaiAdapter: ProviderAdapter = {
     providerId: 'xai',
 
     async fetchModels(apiKey: string): Promise<Model[]> {
-        const response = await fetch('https://api.x.ai/v1/models', {
+        const response = await providerFetch('xai', 'https://api.x.ai/v1/models', {
             headers: {
                 'Authorization': `Bearer ${apiKey}`,
             },
         });
 
         if (!response.ok) {
-            throw new Error(`Failed to fetch xAI models: ${response.statusText}`);
+            throw await providerErrorFromResponse('xai', response);
         }
 
         const data = await response.json();
 
         return data.data.map((model: { id: string }) => {
-            const pricing = getModelPricing(model.id);
+            if (isImageModel(model.id)) {
+                return {
+                    id: model.id,
+                    name: model.id,
+                    providerId: 'xai' as const,
+                    kind: 'image' as const,
+                    supportsImageGeneration: true,
+                    description: 'Grok image generation',
+                };
+            }
+
             const supportsImages = model.id.toLowerCase().includes('vision');
             return {
                 id: model.id,
                 name: model.id,
                 providerId: 'xai' as const,
                 contextLength: getModelContext(model.id),
-                pricing,
                 supportsImages,
                 supportsDocuments: supportsImages,
                 supportsCode: true,
                 supportsFunctionCalling: true,
+                supportsReasoning: supportsReasoningEffort(model.id),
+                supportsWebSearch: true,
                 description: 'xAI flagship model with advanced reasoning',
             };
         });
     },
 
+    // The key endpoint also reports blocked keys and teams that are out of credits
+    validateKey(apiKey: string): Promise<KeyValidation> {
+        return checkKey('xai', () => fetch(...proxyRequest('xai', 'https://api.x.ai/v1/api-key', {
+            headers: { 'Authorization': `Bearer ${apiKey}` },
+        })), async (response) => {
+            const data = await response.json();
+            if (data.team_blocked) return { status: 'quota_exhausted', message: 'The team is blocked, usually because it ran out of credits.' };
+            if (data.api_key_blocked || data.api_key_disabled) return { status: 'invalid', message: 'This key is blocked or disabled.' };
+            return undefined;
+        });
+    },
+
     async streamChat(
         messages: Message[],
         config: ChatConfig,
@@ -64,29 +97,7 @@ export const xaiAdapter: ProviderAdapter = {
         callbacks: StreamCallbacks,
         signal?: AbortSignal
     ): Promise<void> {
-        const chatMessages = messages.map(msg => {
-            if (msg.attachments && msg.attachments.length > 0) {
-                const content: any[] = [];
-                if (msg.content) {
-                    content.push({ type: 'text', text: msg.content });
-                }
-                msg.attachments.forEach(att => {
-                    if (att.type === 'image') {
-                        content.push({
-                            type: 'image_url',
-                            image_url: { url: att.data }
-                        });
-                    }
-                });
-                return { role: msg.role, content };
-            }
-            return {
-                role: msg.role,
-                content: msg.content,
-            };
-        });
-
-        const response = await fetch('https://api.x.ai/v1/chat/completions', {
+        const response = await providerFetch('xai', 'https://api.x.ai/v1/chat/completions', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -94,65 +105,37 @@ export const xaiAdapter: ProviderAdapter = {
             },
             body: JSON.stringify({
                 model: config.model,
-                messages: chatMessages,
-                temperature: config.temperature ?? 0.7,
-                max_tokens: config.maxTokens ?? 4096,
+                messages: toOpenAIMessages(messages),
+                ...toOpenAISamplingParams(config, {
+                    penalties: !isReasoningModel(config.model),
+                    stop: !isReasoningModel(config.model),
+                }),
+                ...getReasoningParams(config),
                 stream: true,
+                stream_options: { include_usage: true },
+                ...(config.tools?.length ? { tools: toOpenAITools(config.tools) } : {}),
+                // Live search returns source URLs but not which sentence each one backs
+                ...(config.webSearch ? { search_parameters: { mode: 'on', return_citations: true } } : {}),
             }),
             signal,
-        });
+        }, callbacks.onRetry);
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`xAI API error: ${error}`);
-        }
-
-        const reader = response.body?.getReader();
-        if (!reader) {
-            throw new Error('No response body');
+            throw await providerErrorFromResponse('xai', response);
         }
 
-        const decoder = new TextDecoder();
-        let fullResponse = '';
-
-        try {
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const jsonStr = line.slice(6);
-                        if (jsonStr.trim() === '[DONE]') continue;
-
-                        try {
-                            const data = JSON.parse(jsonStr);
-                            const text = data.choices?.[0]?.delta?.content;
-                            if (text) {
-                                fullResponse += text;
-                                callbacks.onToken(text);
-                            }
-                        } catch {
-                            // Skip invalid JSON
-                        }
-                    }
-                }
-            }
-            callbacks.onComplete(fullResponse);
-        } catch (error) {
-            if (error instanceof Error && error.name === 'AbortError') {
-                callbacks.onComplete(fullResponse);
-            } else {
-                callbacks.onError(error as Error);
-            }
-        }
+        await streamOpenAIResponse('xai', response, callbacks);
     },
 
-    estimateCost(inputTokens: number, outputTokens: number, modelId: string): number {
-        const pricing = getModelPricing(modelId);
-        return calculateCost(inputTokens, outputTokens, pricing.input, pricing.output);
+    // Grok picks the size and quality itself; only the count is configurable
+    generateImages(
+        prompt: string,
+        config: ImageGenerationConfig,
+        apiKey: string,
+        signal?: AbortSignal
+    ): Promise<ImageGenerationResult> {
+        return requestOpenAIImages('xai', 'https://api.x.ai/v1/images/generations', {
+            'Authorization': `Bearer ${apiKey}`,
+        }, { model: config.model, prompt, n: config.count, response_format: 'b64_json' }, 'image/jpeg', signal);
     },
 };
@@ -0,0 +1,57 @@
+// Provider keys held by the server, for proxy mode
+//
+// A deployment turns proxy mode on with PROVIDER_PROXY=true and an access token in
+// PROVIDER_PROXY_TOKEN; without the token the proxy stays off, since anyone who can
+// reach the server could otherwise spend its keys. Keys come from
+// <PROVIDER>_API_KEY environment variables or from the JSON file named by
+// PROVIDER_KEYS_FILE ({ "openai": "sk-...", ... }); the environment wins when both
+// set one. The file is read on every call so keys can be rotated without a restart.
+// Only imported by route handlers: nothing here may reach the browser bundle.
+import { readFileSync } from 'fs';
+import { timingSafeEqual } from 'crypto';
+import { ProviderId, PROXY_PROVIDERS, ProxyProviderId, isProxyProviderId } from '@/types';
+
+const ENV_KEYS: Record<ProxyProviderId, string> = {
+    gemini: 'GEMINI_API_KEY',
+    anthropic: 'ANTHROPIC_API_KEY',
+    openai: 'OPENAI_API_KEY',
+    xai: 'XAI_API_KEY',
+    groq: 'GROQ_API_KEY',
+    openrouter: 'OPENROUTER_API_KEY',
+};
+
+export function isProxyEnabled(): boolean {
+    return process.env.PROVIDER_PROXY === 'true' && !!process.env.PROVIDER_PROXY_TOKEN;
+}
+
+// Whether a request's token matches the deployment's, compared in constant time
+export function isProxyTokenValid(token: string | null): boolean {
+    const expected = process.env.PROVIDER_PROXY_TOKEN;
+    if (!expected || !token) return false;
+    const a = Buffer.from(token);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function readKeysFile(): Partial<Record<ProxyProviderId, string>> {
+    const path = process.env.PROVIDER_KEYS_FILE;
+    if (!path) return {};
+    try {
+        return JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+        console.error(`Could not read provider keys from ${path}:`, error);
+        return {};
+    }
+}
+
+export function getServerKey(providerId: ProviderId): string | undefined {
+    if (!isProxyEnabled() || !isProxyProviderId(providerId)) return undefined;
+    return process.env[ENV_KEYS[providerId]] || readKeysFile()[providerId] || undefined;
+}
+
+// Providers the proxy can serve; empty when proxy mode is off
+export function getServerKeyProviders(): ProxyProviderId[] {
+    if (!isProxyEnabled()) return [];
+    const fileKeys = readKeysFile();
+    return PROXY_PROVIDERS.filter(id => !!(process.env[ENV_KEYS[id]] || fileKeys[id]));
+}
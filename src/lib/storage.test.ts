@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '@/types';
+import { estimateContextTokens } from './storage';
+
+describe('estimateContextTokens', () => {
+    const messages: Message[] = [
+        { id: 'u', role: 'user', content: 'x'.repeat(40), timestamp: 1 },
+        { id: 'a', role: 'assistant', content: 'x'.repeat(80), timestamp: 2, usage: { inputTokens: 5000, outputTokens: 20 } },
+    ];
+
+    it('starts from the latest reported usage', () => {
+        expect(estimateContextTokens(messages)).toBe(5020);
+    });
+
+    it('ignores usage reported before the history was trimmed', () => {
+        expect(estimateContextTokens(messages, 3)).toBe(10 + 20);
+    });
+});
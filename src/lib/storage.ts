@@ -1,6 +1,30 @@
 'use client';
 
-import { ApiKeys, Conversation, UserPreferences, ProviderId, ChatGroup } from '@/types';
+import {
+    ApiKeys,
+    Conversation,
+    Message,
+    UserPreferences,
+    ProviderId,
+    ChatGroup,
+    PROVIDERS,
+    Provider,
+    CustomProviderConfig,
+    CustomProviderId,
+    isCustomProviderId,
+    RetryPolicy,
+    DEFAULT_RETRY_POLICY,
+    MockProviderSettings,
+    DEFAULT_MOCK_PROVIDER_SETTINGS,
+    Model,
+    ModelCacheEntry,
+    ModelPrice,
+    Attachment,
+    GenerationSettings,
+    ModelRef,
+    KeyValidation,
+    OpenRouterRouting,
+} from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
 const STORAGE_KEYS = {
@@ -8,8 +32,17 @@ const STORAGE_KEYS = {
     CONVERSATIONS: 'ai-chat-conversations',
     PREFERENCES: 'ai-chat-preferences',
     GROUPS: 'ai-chat-groups',
+    BASE_URLS: 'ai-chat-base-urls',
+    CUSTOM_PROVIDERS: 'ai-chat-custom-providers',
+    MODEL_CACHE: 'ai-chat-model-cache',
+    PRICING_OVERRIDES: 'ai-chat-pricing-overrides',
+    KEY_VALIDATIONS: 'ai-chat-key-validations',
+    SERVER_KEY_PROVIDERS: 'ai-chat-server-key-providers',
+    PROXY_TOKEN: 'ai-chat-proxy-token',
 } as const;
 
+const DEFAULT_MODEL_CACHE_TTL_HOURS = 24;
+
 // API Keys
 export function getApiKeys(): ApiKeys {
     if (typeof window === 'undefined') return {};
@@ -19,6 +52,10 @@ export function getApiKeys(): ApiKeys {
 
 export function setApiKey(providerId: ProviderId, key: string): void {
     const keys = getApiKeys();
+    if (keys[providerId] !== key) {
+        invalidateModelCache(providerId);
+        removeKeyValidation(providerId);
+    }
     keys[providerId] = key;
     localStorage.setItem(STORAGE_KEYS.API_KEYS, JSON.stringify(keys));
 }
@@ -26,14 +63,202 @@ export function setApiKey(providerId: ProviderId, key: string): void {
 export function removeApiKey(providerId: ProviderId): void {
     const keys = getApiKeys();
     delete keys[providerId];
+    invalidateModelCache(providerId);
+    removeKeyValidation(providerId);
     localStorage.setItem(STORAGE_KEYS.API_KEYS, JSON.stringify(keys));
 }
 
+// Last key check per provider; dropped whenever the key changes
+export function getKeyValidations(): Partial<Record<ProviderId, KeyValidation>> {
+    if (typeof window === 'undefined') return {};
+    const stored = localStorage.getItem(STORAGE_KEYS.KEY_VALIDATIONS);
+    return stored ? JSON.parse(stored) : {};
+}
+
+export function setKeyValidation(providerId: ProviderId, validation: KeyValidation): void {
+    const validations = getKeyValidations();
+    validations[providerId] = validation;
+    localStorage.setItem(STORAGE_KEYS.KEY_VALIDATIONS, JSON.stringify(validations));
+}
+
+export function removeKeyValidation(providerId: ProviderId): void {
+    const validations = getKeyValidations();
+    if (!validations[providerId]) return;
+    delete validations[providerId];
+    localStorage.setItem(STORAGE_KEYS.KEY_VALIDATIONS, JSON.stringify(validations));
+}
+
 export function hasApiKey(providerId: ProviderId): boolean {
     const keys = getApiKeys();
     return !!keys[providerId];
 }
 
+// Keyless providers (e.g. local servers) are usable without an API key
+export function isProviderReady(providerId: ProviderId, keys: ApiKeys = getApiKeys()): boolean {
+    const provider = getProvider(providerId);
+    if (!provider || !isProviderEnabled(provider)) return false;
+    return provider.requiresApiKey === false || !!keys[providerId] || hasServerKey(providerId);
+}
+
+// Providers whose keys the deployment holds (proxy mode), as last reported by the server
+export function getServerKeyProviders(): ProviderId[] {
+    if (typeof window === 'undefined') return [];
+    const stored = localStorage.getItem(STORAGE_KEYS.SERVER_KEY_PROVIDERS);
+    return stored ? JSON.parse(stored) : [];
+}
+
+export function setServerKeyProviders(providerIds: ProviderId[]): void {
+    localStorage.setItem(STORAGE_KEYS.SERVER_KEY_PROVIDERS, JSON.stringify(providerIds));
+}
+
+export function hasServerKey(providerId: ProviderId): boolean {
+    return getServerKeyProviders().includes(providerId);
+}
+
+// Access token the deployment's proxy requires before it uses its keys
+export function getProxyToken(): string {
+    if (typeof window === 'undefined') return '';
+    return localStorage.getItem(STORAGE_KEYS.PROXY_TOKEN) ?? '';
+}
+
+export function setProxyToken(token: string): void {
+    if (token) {
+        localStorage.setItem(STORAGE_KEYS.PROXY_TOKEN, token);
+    } else {
+        localStorage.removeItem(STORAGE_KEYS.PROXY_TOKEN);
+    }
+}
+
+// Custom Providers
+export function getCustomProviders(): CustomProviderConfig[] {
+    if (typeof window === 'undefined') return [];
+    const stored = localStorage.getItem(STORAGE_KEYS.CUSTOM_PROVIDERS);
+    return stored ? JSON.parse(stored) : [];
+}
+
+export function getCustomProvider(id: CustomProviderId): CustomProviderConfig | undefined {
+    return getCustomProviders().find(p => p.id === id);
+}
+
+export function createCustomProviderId(): CustomProviderId {
+    return `custom-${uuidv4()}`;
+}
+
+export function saveCustomProvider(config: CustomProviderConfig): void {
+    const providers = getCustomProviders();
+    const normalized = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    const index = providers.findIndex(p => p.id === config.id);
+
+    if (index >= 0) {
+        providers[index] = normalized;
+    } else {
+        providers.push(normalized);
+    }
+    invalidateModelCache(config.id);
+
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_PROVIDERS, JSON.stringify(providers));
+}
+
+export function deleteCustomProvider(id: CustomProviderId): void {
+    const providers = getCustomProviders().filter(p => p.id !== id);
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_PROVIDERS, JSON.stringify(providers));
+    removeApiKey(id);
+}
+
+function customProviderToProvider(config: CustomProviderConfig): Provider {
+    return {
+        id: config.id,
+        name: config.name,
+        baseUrl: config.baseUrl,
+        modelsEndpoint: config.modelsEndpoint || '/models',
+        supportsModelFetching: true,
+        requiresApiKey: config.authScheme !== 'none',
+        isCustom: true,
+    };
+}
+
+// Built-in and custom providers in display order
+// The mock provider is the only dev-only one
+function isProviderEnabled(provider: Provider): boolean {
+    return !provider.devOnly || getMockProviderSettings().enabled;
+}
+
+export function getProviders(): Provider[] {
+    const builtIn = Object.values(PROVIDERS).filter(isProviderEnabled);
+    return [...builtIn, ...getCustomProviders().map(customProviderToProvider)];
+}
+
+export function getProvider(providerId: ProviderId): Provider | undefined {
+    if (isCustomProviderId(providerId)) {
+        const config = getCustomProvider(providerId);
+        return config ? customProviderToProvider(config) : undefined;
+    }
+    return PROVIDERS[providerId];
+}
+
+// Base URL overrides
+export function getBaseUrls(): Partial<Record<ProviderId, string>> {
+    if (typeof window === 'undefined') return {};
+    const stored = localStorage.getItem(STORAGE_KEYS.BASE_URLS);
+    return stored ? JSON.parse(stored) : {};
+}
+
+export function setBaseUrl(providerId: ProviderId, url: string): void {
+    const urls = getBaseUrls();
+    urls[providerId] = url.replace(/\/+$/, '');
+    localStorage.setItem(STORAGE_KEYS.BASE_URLS, JSON.stringify(urls));
+    invalidateModelCache(providerId);
+}
+
+export function removeBaseUrl(providerId: ProviderId): void {
+    const urls = getBaseUrls();
+    delete urls[providerId];
+    localStorage.setItem(STORAGE_KEYS.BASE_URLS, JSON.stringify(urls));
+    invalidateModelCache(providerId);
+}
+
+// Model catalog cache, keyed by provider. Entries are dropped whenever the
+// provider's key, base URL or configuration changes.
+function getModelCache(): Partial<Record<ProviderId, ModelCacheEntry>> {
+    if (typeof window === 'undefined') return {};
+    const stored = localStorage.getItem(STORAGE_KEYS.MODEL_CACHE);
+    return stored ? JSON.parse(stored) : {};
+}
+
+export function getCachedModels(providerId: ProviderId): ModelCacheEntry | undefined {
+    return getModelCache()[providerId];
+}
+
+// Pass fetchedAt 0 to keep a stand-in list only until the next refresh
+export function setCachedModels(providerId: ProviderId, models: Model[], fetchedAt = Date.now()): void {
+    const cache = getModelCache();
+    cache[providerId] = { models, fetchedAt };
+    localStorage.setItem(STORAGE_KEYS.MODEL_CACHE, JSON.stringify(cache));
+}
+
+export function invalidateModelCache(providerId: ProviderId): void {
+    const cache = getModelCache();
+    if (!cache[providerId]) return;
+    delete cache[providerId];
+    localStorage.setItem(STORAGE_KEYS.MODEL_CACHE, JSON.stringify(cache));
+}
+
+export function clearModelCache(): void {
+    localStorage.removeItem(STORAGE_KEYS.MODEL_CACHE);
+}
+
+export function getModelCacheTtlMs(): number {
+    return (getPreferences().modelCacheTtlHours ?? DEFAULT_MODEL_CACHE_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+export function isModelCacheStale(entry: ModelCacheEntry): boolean {
+    return Date.now() - entry.fetchedAt > getModelCacheTtlMs();
+}
+
+export function getProviderBaseUrl(providerId: ProviderId): string {
+    return getBaseUrls()[providerId] || getProvider(providerId)?.baseUrl || '';
+}
+
 // Conversations
 export function getConversations(): Conversation[] {
     if (typeof window === 'undefined') return [];
@@ -180,27 +405,99 @@ export function setPreferences(preferences: Partial<UserPreferences>): void {
     localStorage.setItem(STORAGE_KEYS.PREFERENCES, JSON.stringify(updated));
 }
 
+// Retry policy (stored with preferences, falling back to defaults per field)
+export function getRetryPolicy(): RetryPolicy {
+    return { ...DEFAULT_RETRY_POLICY, ...getPreferences().retryPolicy };
+}
+
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    setPreferences({ retryPolicy: { ...getPreferences().retryPolicy, ...policy } });
+}
+
+// Generation settings applied to new requests unless a conversation overrides them
+export function getGenerationDefaults(providerId: ProviderId): GenerationSettings {
+    return getPreferences().generationDefaults?.[providerId] ?? {};
+}
+
+export function setGenerationDefaults(providerId: ProviderId, settings: GenerationSettings): void {
+    setPreferences({ generationDefaults: { ...getPreferences().generationDefaults, [providerId]: settings } });
+}
+
+export function getMockProviderSettings(): MockProviderSettings {
+    return { ...DEFAULT_MOCK_PROVIDER_SETTINGS, ...getPreferences().mockProvider };
+}
+
+export function setMockProviderSettings(settings: Partial<MockProviderSettings>): void {
+    setPreferences({ mockProvider: { ...getPreferences().mockProvider, ...settings } });
+}
+
+// Models tried after the selected one; conversations can replace it with their own
+export function getFallbackChain(): ModelRef[] {
+    return getPreferences().fallbackChain ?? [];
+}
+
+export function setFallbackChain(chain: ModelRef[]): void {
+    setPreferences({ fallbackChain: chain });
+}
+
+// OpenRouter provider routing; conversations can replace it with their own
+export function getOpenRouterRouting(): OpenRouterRouting {
+    return getPreferences().openRouterRouting ?? {};
+}
+
+export function setOpenRouterRouting(routing: OpenRouterRouting): void {
+    setPreferences({ openRouterRouting: routing });
+}
+
+// User-entered model prices, keyed by "providerId:modelId"
+export function getPricingOverrides(): Record<string, ModelPrice> {
+    if (typeof window === 'undefined') return {};
+    const stored = localStorage.getItem(STORAGE_KEYS.PRICING_OVERRIDES);
+    return stored ? JSON.parse(stored) : {};
+}
+
+export function setPricingOverride(key: string, price: ModelPrice): void {
+    const overrides = getPricingOverrides();
+    overrides[key] = price;
+    localStorage.setItem(STORAGE_KEYS.PRICING_OVERRIDES, JSON.stringify(overrides));
+}
+
+export function removePricingOverride(key: string): void {
+    const overrides = getPricingOverrides();
+    delete overrides[key];
+    localStorage.setItem(STORAGE_KEYS.PRICING_OVERRIDES, JSON.stringify(overrides));
+}
+
 // Token counting (approximate)
-export function estimateTokens(text: string, attachments?: any[]): number {
+export function estimateTokens(text: string, attachments?: Attachment[]): number {
     // Rough approximation: ~4 characters per token for English text
     let tokens = Math.ceil(text.length / 4);
 
-    // Add tokens for attachments (rough average)
-    if (attachments && attachments.length > 0) {
-        tokens += attachments.length * 1000;
-    }
+    // Add tokens for attachments (rough average), or the text extracted from them
+    attachments?.forEach(att => {
+        tokens += att.extractedText !== undefined
+            ? Math.ceil(att.extractedText.length / 4) + (att.pageImages?.length ?? 0) * 1000
+            : 1000;
+    });
 
     return tokens;
 }
 
-// Cost calculation
-export function calculateCost(
-    inputTokens: number,
-    outputTokens: number,
-    inputPricePerMillion: number,
-    outputPricePerMillion: number
-): number {
-    const inputCost = (inputTokens / 1_000_000) * inputPricePerMillion;
-    const outputCost = (outputTokens / 1_000_000) * outputPricePerMillion;
-    return inputCost + outputCost;
+// Tokens currently occupying the context window. The latest provider-reported
+// usage already covers everything up to that reply, so only later messages are estimated.
+// Usage reported before `trimmedAt` also counted messages that have since been removed.
+export function estimateContextTokens(messages: Message[], trimmedAt = 0): number {
+    let lastReported = -1;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].usage && messages[i].timestamp >= trimmedAt) {
+            lastReported = i;
+            break;
+        }
+    }
+
+    const reported = messages[lastReported]?.usage;
+    const base = reported ? reported.inputTokens + reported.outputTokens : 0;
+    return messages
+        .slice(lastReported + 1)
+        .reduce((acc, m) => acc + (m.tokenCount || estimateTokens(m.content, m.attachments)), base);
 }
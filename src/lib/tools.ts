@@ -0,0 +1,199 @@
+// Tool registry for function calling
+//
+// Tools run in the browser. A tool's result is always returned to the model as
+// text, so executors return strings (JSON for structured data).
+import { ToolCall, ToolDefinition } from '@/types';
+
+export interface RegisteredTool {
+    definition: ToolDefinition;
+    execute: (args: Record<string, unknown>) => Promise<string> | string;
+}
+
+export interface ToolResult {
+    content: string;
+    isError: boolean;
+}
+
+const registry = new Map<string, RegisteredTool>();
+
+export function registerTool(tool: RegisteredTool): void {
+    registry.set(tool.definition.name, tool);
+}
+
+export function unregisterTool(name: string): void {
+    registry.delete(name);
+}
+
+export function getToolDefinitions(): ToolDefinition[] {
+    return [...registry.values()].map(tool => tool.definition);
+}
+
+export async function executeToolCall(call: ToolCall): Promise<ToolResult> {
+    const tool = registry.get(call.name);
+    if (!tool) {
+        return { content: `Unknown tool: ${call.name}`, isError: true };
+    }
+
+    let args: Record<string, unknown>;
+    try {
+        args = JSON.parse(call.arguments || '{}');
+    } catch {
+        return { content: `Invalid JSON arguments: ${call.arguments}`, isError: true };
+    }
+
+    try {
+        return { content: await tool.execute(args), isError: false };
+    } catch (error) {
+        return { content: error instanceof Error ? error.message : String(error), isError: true };
+    }
+}
+
+// Arithmetic evaluator used by the calculator tool (no eval)
+const MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    log: Math.log10,
+    ln: Math.log,
+    exp: Math.exp,
+};
+
+const MATH_CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+};
+
+export function evaluateExpression(expression: string): number {
+    const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^()]/gi) || [];
+    if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+        throw new Error(`Unsupported characters in expression: ${expression}`);
+    }
+
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+
+    // expr := term (('+' | '-') term)*
+    const parseExpr = (): number => {
+        let value = parseTerm();
+        while (peek() === '+' || peek() === '-') {
+            value = next() === '+' ? value + parseTerm() : value - parseTerm();
+        }
+        return value;
+    };
+
+    // term := power (('*' | '/' | '%') power)*
+    const parseTerm = (): number => {
+        let value = parsePower();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const op = next();
+            const rhs = parsePower();
+            value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+        }
+        return value;
+    };
+
+    // power := unary (('^' | '**') power)?   (right associative)
+    const parsePower = (): number => {
+        const base = parseUnary();
+        if (peek() === '^' || peek() === '**') {
+            next();
+            return Math.pow(base, parsePower());
+        }
+        return base;
+    };
+
+    const parseUnary = (): number => {
+        if (peek() === '-') {
+            next();
+            return -parseUnary();
+        }
+        if (peek() === '+') {
+            next();
+            return parseUnary();
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): number => {
+        const token = next();
+        if (token === undefined) throw new Error('Unexpected end of expression');
+
+        if (token === '(') {
+            const value = parseExpr();
+            if (next() !== ')') throw new Error('Missing closing parenthesis');
+            return value;
+        }
+
+        const name = token.toLowerCase();
+        if (MATH_FUNCTIONS[name]) {
+            if (next() !== '(') throw new Error(`Expected '(' after ${name}`);
+            const value = parseExpr();
+            if (next() !== ')') throw new Error('Missing closing parenthesis');
+            return MATH_FUNCTIONS[name](value);
+        }
+        if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+
+        const value = Number(token);
+        if (Number.isNaN(value)) throw new Error(`Unexpected token: ${token}`);
+        return value;
+    };
+
+    const result = parseExpr();
+    if (pos < tokens.length) throw new Error(`Unexpected token: ${tokens[pos]}`);
+    return result;
+}
+
+// Built-in tools
+registerTool({
+    definition: {
+        name: 'get_current_time',
+        description: 'Get the current date and time, optionally in a specific IANA time zone.',
+        parameters: {
+            type: 'object',
+            properties: {
+                timezone: {
+                    type: 'string',
+                    description: 'IANA time zone such as "Europe/Istanbul". Defaults to the user\'s local time zone.',
+                },
+            },
+        },
+    },
+    execute: ({ timezone }) => {
+        const timeZone = typeof timezone === 'string' && timezone ? timezone : undefined;
+        const now = new Date();
+        return JSON.stringify({
+            iso: now.toISOString(),
+            local: now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }),
+            timezone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+        });
+    },
+});
+
+registerTool({
+    definition: {
+        name: 'calculator',
+        description: 'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, log, ln, exp, pi and e.',
+        parameters: {
+            type: 'object',
+            properties: {
+                expression: {
+                    type: 'string',
+                    description: 'The expression to evaluate, e.g. "(3 + 4) * sqrt(2)"',
+                },
+            },
+            required: ['expression'],
+        },
+    },
+    execute: ({ expression }) => {
+        if (typeof expression !== 'string' || !expression.trim()) {
+            throw new Error('expression must be a non-empty string');
+        }
+        return String(evaluateExpression(expression));
+    },
+});
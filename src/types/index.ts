@@ -1,13 +1,34 @@
 // Type definitions for the AI Chat Platform
 
-export type ProviderId = 'gemini' | 'anthropic' | 'openai' | 'xai' | 'groq' | 'openrouter';
+export type BuiltInProviderId = 'gemini' | 'anthropic' | 'openai' | 'xai' | 'groq' | 'openrouter' | 'ollama' | 'mock';
 
-export interface Provider {
-  id: ProviderId;
+// User-defined OpenAI-compatible endpoints (vLLM, LiteLLM, internal gateways...)
+export type CustomProviderId = `custom-${string}`;
+
+export type ProviderId = BuiltInProviderId | CustomProviderId;
+
+export interface Provider<Id extends ProviderId = ProviderId> {
+  id: Id;
   name: string;
   baseUrl: string;
   modelsEndpoint?: string;
   supportsModelFetching: boolean;
+  requiresApiKey?: boolean; // Defaults to true; local servers can run without one
+  configurableBaseUrl?: boolean; // Base URL can be overridden in settings
+  isCustom?: boolean;
+  devOnly?: boolean; // Hidden unless enabled in the developer settings
+}
+
+export type CustomProviderAuthScheme = 'bearer' | 'header' | 'none';
+
+export interface CustomProviderConfig {
+  id: CustomProviderId;
+  name: string;
+  baseUrl: string; // e.g. https://gateway.internal/v1
+  modelsEndpoint?: string; // Relative to baseUrl, defaults to /models
+  headers?: Record<string, string>; // Extra headers sent with every request
+  authScheme: CustomProviderAuthScheme;
+  authHeader?: string; // Header name for the 'header' scheme, e.g. X-Api-Key
 }
 
 export interface Model {
@@ -15,17 +36,44 @@ export interface Model {
   name: string;
   providerId: ProviderId;
   contextLength?: number;
-  pricing?: {
-    input: number;  // per 1M tokens
-    output: number; // per 1M tokens
-  };
+  pricing?: ModelPrice; // Only set when the provider reports its own prices
   supportsImages?: boolean;
   supportsDocuments?: boolean;
   supportsCode?: boolean;
   supportsFunctionCalling?: boolean;
+  supportsReasoning?: boolean; // Accepts a thinking budget / reasoning effort
+  supportsWebSearch?: boolean; // Can ground replies in a web search
+  supportsImageGeneration?: boolean; // Outputs images: through generateImages for 'image' models, inline in replies otherwise
+  kind?: 'chat' | 'embedding' | 'image'; // Unset means chat
+  embeddingDimensions?: number; // Embedding models: length of the returned vectors
   description?: string;
 }
 
+// A model on a specific provider, e.g. a compare target or fallback chain entry
+export interface ModelRef {
+  providerId: ProviderId;
+  modelId: string;
+}
+
+// Dollars per 1M tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput?: number; // Prompt cache reads; defaults to the input price
+  cacheWrite?: number; // Prompt cache writes; defaults to the input price
+  reasoning?: number; // Thinking tokens; defaults to the output price
+  perImage?: number; // Dollars per generated image, on top of any token cost
+}
+
+// Where a resolved price came from; 'default' means it is a guess
+export type PriceSource = 'override' | 'provider' | 'registry' | 'default';
+
+// A provider's fetched model list as persisted in storage
+export interface ModelCacheEntry {
+  models: Model[];
+  fetchedAt: number;
+}
+
 export interface Attachment {
   id: string;
   type: string;
@@ -33,17 +81,78 @@ export interface Attachment {
   mimeType: string;
   size: number;
   data: string; // base64 data
+  // Filled in for PDFs sent to models without native PDF input
+  extractedText?: string;
+  pageCount?: number;
+  pageImages?: string[]; // JPEG data URLs of the first pages, for vision models
+}
+
+// Tool (function) definition exposed to the model; parameters is a JSON Schema object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Provider-independent shape of a completed tool call
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON-encoded arguments as produced by the model
+}
+
+// Token counts reported by the provider for a single request
+export interface TokenUsage {
+  inputTokens: number; // Everything sent, including cached input
+  outputTokens: number;
+  cachedInputTokens?: number; // Portion of inputTokens read from the provider's prompt cache
+  cacheWriteTokens?: number; // Portion of inputTokens written to the prompt cache
+  reasoningTokens?: number; // Portion of outputTokens spent on thinking
+  images?: number; // Images generated, for models billed per image
 }
 
+// 'auto' leaves the provider's default in place
+export type ReasoningEffort = 'auto' | 'off' | 'low' | 'medium' | 'high';
+
+// Token budgets for providers that take a thinking budget instead of an effort level
+export const REASONING_BUDGETS: Record<'low' | 'medium' | 'high', number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
+
 export interface Message {
   id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: number;
   tokenCount?: number;
   timing?: number; // Time taken in seconds
   model?: string; // Model used for generation
+  providerId?: ProviderId; // Provider that generated it; differs from the chat's after a fallback
+  fallbackAttempts?: FallbackAttempt[]; // Models tried first that failed before answering
+  usage?: TokenUsage; // Provider-reported usage; absent when only estimated
+  reasoning?: string; // Assistant messages: thinking streamed before the answer
+  reasoningTokenCount?: number;
+  reasoningSignature?: string; // Anthropic: must be sent back with thinking blocks during tool use
   attachments?: Attachment[];
+  toolCalls?: ToolCall[]; // Assistant messages: tools the model asked to run
+  toolCallId?: string; // Tool messages: the call this result answers
+  toolName?: string; // Tool messages: name of the tool that ran
+  toolError?: boolean; // Tool messages: execution failed
+  citations?: Citation[]; // Assistant messages: web sources, numbered by their [n] markers in content
+  upstreamProvider?: string; // OpenRouter: the provider that actually served the reply
+  finishReason?: FinishReason; // Assistant messages: why generation stopped, when the provider said
+}
+
+// Why a model stopped generating, normalised across providers; 'length' means the
+// output token limit cut the reply short
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'other';
+
+// A web source a reply was grounded in
+export interface Citation {
+  url: string;
+  title?: string;
 }
 
 export interface Conversation {
@@ -58,6 +167,40 @@ export interface Conversation {
   disableSystemPrompt?: boolean;
   pinned?: boolean;
   groupId?: string;
+  generationSettings?: GenerationSettings; // Overrides the provider defaults for this chat
+  imageOptions?: ImageOptions; // Used when the selected model generates images
+  comparisons?: Comparison[];
+  fallbackChain?: ModelRef[]; // Replaces the global fallback chain for this chat
+  openRouterRouting?: OpenRouterRouting; // Replaces the global OpenRouter routing for this chat
+  contextTrimmedAt?: number; // When older messages were last trimmed away; earlier reported usage no longer applies
+}
+
+// A model skipped during fallback and why
+export interface FallbackAttempt extends ModelRef {
+  reason: string;
+}
+
+// One model's answer in a side-by-side comparison
+export interface ComparisonResponse extends ModelRef {
+  id: string;
+  content: string;
+  status: 'streaming' | 'done' | 'error';
+  error?: string;
+  reasoning?: string;
+  tokenCount?: number;
+  timing?: number; // Time taken in seconds
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+// The same prompt sent to several models at once. Until a winner is picked the
+// prompt is the last message; the winner then becomes the assistant reply.
+export interface Comparison {
+  id: string;
+  userMessageId: string;
+  responses: ComparisonResponse[];
+  winnerId?: string;
+  createdAt: number;
 }
 
 export interface ChatGroup {
@@ -67,11 +210,39 @@ export interface ChatGroup {
   order?: number;
 }
 
-export interface ChatConfig {
-  model: string;
+// Sampling controls; unset fields fall back to the provider default, and
+// adapters leave out anything their API doesn't accept
+export interface GenerationSettings {
   temperature?: number;
+  topP?: number;
+  topK?: number;
   maxTokens?: number;
+  stopSequences?: string[];
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  seed?: number;
+}
+
+export interface ChatConfig extends GenerationSettings {
+  model: string;
   systemPrompt?: string;
+  tools?: ToolDefinition[];
+  reasoningEffort?: ReasoningEffort;
+  promptCaching?: boolean; // Mark the stable prompt prefix for provider-side caching
+  webSearch?: boolean; // Ground the reply in the provider's own web search
+  openRouterRouting?: OpenRouterRouting; // Only read by the OpenRouter adapter
+}
+
+export const OPENROUTER_QUANTIZATIONS = ['int4', 'int8', 'fp4', 'fp6', 'fp8', 'fp16', 'bf16', 'fp32'] as const;
+export type OpenRouterQuantization = typeof OPENROUTER_QUANTIZATIONS[number];
+
+// Which upstream providers OpenRouter may send a request to; unset fields keep OpenRouter's defaults
+export interface OpenRouterRouting {
+  order?: string[]; // Provider slugs to try first, in order (e.g. "anthropic", "together")
+  allowFallbacks?: boolean; // false: only the providers in `order` may serve the request
+  denyDataCollection?: boolean; // Skip providers that store or train on prompts
+  quantizations?: OpenRouterQuantization[]; // Only endpoints serving the model at these precisions
+  maxPrice?: { prompt?: number; completion?: number }; // Dollars per million tokens
 }
 
 export interface ApiKeys {
@@ -81,6 +252,7 @@ export interface ApiKeys {
   xai?: string;
   groq?: string;
   openrouter?: string;
+  ollama?: string;
   [key: string]: string | undefined;
 }
 
@@ -91,18 +263,134 @@ export interface UserPreferences {
   systemPrompt?: string;
   username?: string;
   avatar?: string; // base64 or URL
+  toolsEnabled?: boolean; // Let capable models call registered tools (default on)
+  webSearch?: boolean; // Let capable models search the web (default off)
+  reasoningEffort?: ReasoningEffort;
+  retryPolicy?: Partial<RetryPolicy>;
+  modelCacheTtlHours?: number; // How long fetched model lists are served before a background refresh
+  promptCaching?: boolean; // Cache long prompts where the provider supports it (default on)
+  generationDefaults?: Partial<Record<ProviderId, GenerationSettings>>;
+  fallbackChain?: ModelRef[]; // Tried in order when the selected model fails before answering
+  openRouterRouting?: OpenRouterRouting;
+  mockProvider?: Partial<MockProviderSettings>;
+}
+
+// How provider requests are retried before a stream starts
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // First backoff step, doubled on each attempt
+  maxDelayMs: number; // Longest single wait; longer server hints give up instead
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Mock provider: 'echo' repeats the prompt back, 'scripted' replies with `script` in turn
+export type MockResponseMode = 'echo' | 'scripted';
+// 'http' fails the request with `failureStatus`; 'disconnect' drops the stream halfway through
+export type MockFailure = 'none' | 'http' | 'disconnect';
+
+// Offline provider for development and tests; streams fake replies without network access
+export interface MockProviderSettings {
+  enabled: boolean;
+  mode: MockResponseMode;
+  script: string[];
+  latencyMs: number; // Wait before the first chunk
+  chunkDelayMs: number; // Wait between chunks
+  chunkSize: number; // Characters per streamed chunk
+  failure: MockFailure;
+  failureRate: number; // Chance (0-1) that a request fails
+  failureStatus: number;
+}
+
+export const DEFAULT_MOCK_PROVIDER_SETTINGS: MockProviderSettings = {
+  enabled: false,
+  mode: 'echo',
+  script: [],
+  latencyMs: 300,
+  chunkDelayMs: 30,
+  chunkSize: 4,
+  failure: 'none',
+  failureRate: 1,
+  failureStatus: 503,
+};
+
+// Reported before each retry so the UI can show a countdown
+export interface RetryInfo {
+  attempt: number; // 1-based
+  maxRetries: number;
+  delayMs: number;
+  status?: number; // Missing when the request failed at the network level
+}
+
+// Extra details reported by the provider once a stream finishes
+export interface CompletionInfo {
+  usage?: TokenUsage;
+  reasoningSignature?: string;
+  citations?: Citation[]; // Sources of a web-grounded reply; the response text carries their markers
+  upstreamProvider?: string;
+  finishReason?: FinishReason;
 }
 
 export interface StreamCallbacks {
   onToken: (token: string) => void;
-  onComplete: (fullResponse: string) => void;
+  onReasoning?: (token: string) => void; // Thinking text, kept apart from the answer
+  onRetry?: (info: RetryInfo) => void; // A failed request is about to be retried
+  onToolCall?: (toolCall: ToolCall) => void; // Called once per fully received tool call
+  onImage?: (image: Attachment) => void; // Image generated inline with the reply (Gemini)
+  onComplete: (fullResponse: string, info?: CompletionInfo) => void;
   onError: (error: Error) => void;
 }
 
+// Outcome of an API key check
+export type KeyStatus = 'verified' | 'invalid' | 'quota_exhausted' | 'error';
+
+export interface KeyValidation {
+  status: KeyStatus;
+  latencyMs: number;
+  message?: string; // Why the key was rejected, or why the check could not run
+  checkedAt: number;
+}
+
+// Image generation; adapters map these onto what each model accepts
+export type ImageSize = 'square' | 'landscape' | 'portrait';
+export type ImageQuality = 'standard' | 'high';
+
+export interface ImageOptions {
+  size: ImageSize;
+  count: number;
+  quality: ImageQuality;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageOptions = { size: 'square', count: 1, quality: 'standard' };
+export const MAX_IMAGE_COUNT = 4;
+
+export interface ImageGenerationConfig extends ImageOptions {
+  model: string;
+}
+
+export interface ImageGenerationResult {
+  images: Attachment[];
+  revisedPrompt?: string; // Some models rewrite the prompt before drawing
+  usage?: TokenUsage;
+}
+
+// Embeddings
+export interface EmbeddingResult {
+  embeddings: number[][]; // One vector per input text, in input order
+  model: string;
+  usage?: TokenUsage; // Input tokens only; absent when the provider doesn't report it
+  cost?: number; // Dollars
+}
+
 // Provider adapter interface
 export interface ProviderAdapter {
   providerId: ProviderId;
-  fetchModels(apiKey: string): Promise<Model[]>;
+  fetchModels(apiKey: string): Promise<Model[]>; // Chat models, then embedding models where supported
+  validateKey(apiKey: string): Promise<KeyValidation>; // Cheapest authenticated request the API offers
   streamChat(
     messages: Message[],
     config: ChatConfig,
@@ -110,11 +398,27 @@ export interface ProviderAdapter {
     callbacks: StreamCallbacks,
     signal?: AbortSignal
   ): Promise<void>;
-  estimateCost(inputTokens: number, outputTokens: number, modelId: string): number;
+  // Only for providers with an embeddings API; inputs are batched to its per-request limit
+  embed?(texts: string[], model: string, apiKey: string, signal?: AbortSignal): Promise<EmbeddingResult>;
+  // Only for providers with a dedicated image API, used by models of kind 'image'
+  generateImages?(
+    prompt: string,
+    config: ImageGenerationConfig,
+    apiKey: string,
+    signal?: AbortSignal
+  ): Promise<ImageGenerationResult>;
+}
+
+export function isCustomProviderId(providerId: string): providerId is CustomProviderId {
+  return providerId.startsWith('custom-');
+}
+
+export function isEmbeddingModel(model: Model): boolean {
+  return model.kind === 'embedding';
 }
 
 // Provider configurations
-export const PROVIDERS: Record<ProviderId, Provider> = {
+export const PROVIDERS: { [Id in BuiltInProviderId]: Provider<Id> } = {
   gemini: {
     id: 'gemini',
     name: 'Google Gemini',
@@ -126,7 +430,8 @@ export const PROVIDERS: Record<ProviderId, Provider> = {
     id: 'anthropic',
     name: 'Anthropic Claude',
     baseUrl: 'https://api.anthropic.com',
-    supportsModelFetching: false,
+    modelsEndpoint: '/v1/models',
+    supportsModelFetching: true,
   },
   openai: {
     id: 'openai',
@@ -156,4 +461,33 @@ export const PROVIDERS: Record<ProviderId, Provider> = {
     modelsEndpoint: '/api/v1/models',
     supportsModelFetching: true,
   },
+  ollama: {
+    id: 'ollama',
+    name: 'Ollama (Local)',
+    baseUrl: 'http://localhost:11434',
+    modelsEndpoint: '/api/tags',
+    supportsModelFetching: true,
+    requiresApiKey: false,
+    configurableBaseUrl: true,
+  },
+  mock: {
+    id: 'mock',
+    name: 'Mock (Dev)',
+    baseUrl: '',
+    supportsModelFetching: true,
+    requiresApiKey: false,
+    devOnly: true,
+  },
 };
+
+// Cloud providers a deployment can serve through its own proxy (/api/providers/<id>/...)
+// with keys held on the server
+export const PROXY_PROVIDERS = ['gemini', 'anthropic', 'openai', 'xai', 'groq', 'openrouter'] as const;
+export type ProxyProviderId = typeof PROXY_PROVIDERS[number];
+
+export function isProxyProviderId(providerId: string): providerId is ProxyProviderId {
+  return (PROXY_PROVIDERS as readonly string[]).includes(providerId);
+}
+
+// Proxied requests carry the deployment's access token in this header
+export const PROXY_TOKEN_HEADER = 'x-proxy-token';